@@ -0,0 +1,116 @@
+import * as React from "react";
+import { TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { polarToCartesian } from "@/lib/roomGeometry";
+import { formatClock, formatDuration, fractionDigitsForStep } from "@/lib/sessionClock";
+import { ANOMALY_LABELS } from "@/lib/trackAnomalies";
+
+/**
+ * AnomalyReview: Lists flagged samples (teleports, impossible speeds, ...) and
+ * jumps playback to one when clicked
+ */
+export const AnomalyReview: React.FC = () => {
+  const trackAnomalies = usePeoplePlaybackStore((state) => state.trackAnomalies);
+  const sessionClock = usePeoplePlaybackStore((state) => state.sessionClock);
+  const sampleStepSec = usePeoplePlaybackStore((state) => state.sampleStepSec);
+  const setTime = usePeoplePlaybackStore((state) => state.setTime);
+  const [open, setOpen] = React.useState(false);
+
+  if (trackAnomalies.length === 0) return null;
+
+  const digits = fractionDigitsForStep(sampleStepSec);
+  const timeLabel = (tSec: number) =>
+    sessionClock.originSec !== null
+      ? formatClock(sessionClock.originSec + tSec, "12h", digits)
+      : formatDuration(tSec, digits);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <TriangleAlert className="mr-2 h-4 w-4" />
+          {trackAnomalies.length} to review
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Track anomalies</DialogTitle>
+          <DialogDescription>
+            Samples that look like entry mistakes. Select one to jump there; it is circled on the grid.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="max-h-96 space-y-1 overflow-y-auto text-sm">
+          {trackAnomalies.map((a, i) => (
+            <li key={i}>
+              <button
+                className="w-full rounded px-2 py-1.5 text-left hover:bg-muted"
+                onClick={() => {
+                  setTime(a.tSec);
+                  setOpen(false);
+                }}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">
+                    {a.personId} · {ANOMALY_LABELS[a.kind]}
+                  </span>
+                  <span className="text-muted-foreground">{timeLabel(a.tSec)}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {a.message}
+                  {a.line !== undefined && ` — line ${a.line}`}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface AnomalyHighlightsProps {
+  size?: number;
+}
+
+/**
+ * AnomalyHighlights: Circles flagged samples on the grid while playback is at them
+ */
+export const AnomalyHighlights: React.FC<AnomalyHighlightsProps> = ({ size = 520 }) => {
+  const trackAnomalies = usePeoplePlaybackStore((state) => state.trackAnomalies);
+  const timeSec = usePeoplePlaybackStore((state) => state.timeSec);
+  const sampleStepSec = usePeoplePlaybackStore((state) => state.sampleStepSec);
+
+  const center = size / 2;
+  const maxRadius = size / 2 - 20;
+  const nearSec = Math.max(0.5, sampleStepSec / 2);
+
+  const current = trackAnomalies.filter(
+    (a) => Math.abs(a.tSec - timeSec) <= nearSec && a.angleDeg !== undefined && a.radiusFactor !== undefined
+  );
+  if (current.length === 0) return null;
+
+  return (
+    <svg width={size} height={size} className="absolute inset-0 pointer-events-none" style={{ zIndex: 30 }}>
+      {current.map((a, i) => {
+        const { x, y } = polarToCartesian(center, center, maxRadius * a.radiusFactor!, a.angleDeg!);
+        return (
+          <g key={i}>
+            <circle cx={x} cy={y} r={18} fill="none" stroke="#e74c3c" strokeWidth={2} strokeDasharray="4 3" />
+            <text x={x} y={y - 24} textAnchor="middle" fontSize={11} fill="#e74c3c" className="font-mori">
+              {a.personId} · {ANOMALY_LABELS[a.kind]}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,87 @@
+import * as React from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { reportHasIssues } from "@/lib/positionsCsv";
+
+const MAX_LISTED = 50; // per section, the rest is summarized
+
+interface ReportSectionProps {
+  title: string;
+  items: string[];
+}
+
+const ReportSection: React.FC<ReportSectionProps> = ({ title, items }) => {
+  if (items.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className="font-medium">
+        {title} ({items.length})
+      </div>
+      <ul className="space-y-0.5 text-muted-foreground">
+        {items.slice(0, MAX_LISTED).map((item, i) => (
+          <li key={i}>{item}</li>
+        ))}
+        {items.length > MAX_LISTED && <li>…and {items.length - MAX_LISTED} more</li>}
+      </ul>
+    </div>
+  );
+};
+
+/**
+ * CSVReportPanel: Dismissible validation report for the last positions CSV load
+ */
+export const CSVReportPanel: React.FC = () => {
+  const csvReport = usePeoplePlaybackStore((state) => state.csvReport);
+  const dismissCSVReport = usePeoplePlaybackStore((state) => state.dismissCSVReport);
+
+  if (!csvReport || !reportHasIssues(csvReport)) return null;
+
+  return (
+    <div role="status" className="rounded-lg border bg-card text-card-foreground shadow-lg text-xs">
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <div>
+          <div className="text-sm font-semibold">Positions CSV report</div>
+          <div className="text-muted-foreground">
+            {csvReport.acceptedRows} of {csvReport.totalRows} rows loaded
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" onClick={dismissCSVReport} aria-label="Dismiss CSV report">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="max-h-72 space-y-3 overflow-y-auto px-4 py-3">
+        <ReportSection
+          title="Unterminated quoted field"
+          items={
+            csvReport.unterminatedQuote
+              ? [`Line ${csvReport.unterminatedQuote.line}: quote never closed, read up to the end of the file`]
+              : []
+          }
+        />
+        <ReportSection
+          title="Unrecognized columns"
+          items={csvReport.unmappedHeaders.map((h) => `"${h}" was ignored`)}
+        />
+        <ReportSection
+          title="Skipped rows"
+          items={csvReport.skippedRows.map((r) => `Line ${r.line}: ${r.reason}`)}
+        />
+        <ReportSection
+          title="Non-numeric values"
+          items={csvReport.nonNumeric.map((n) => `Line ${n.line}: ${n.column} = "${n.value}"`)}
+        />
+        <ReportSection
+          title="Unknown bench codes"
+          items={csvReport.unknownBenches.map((b) => `Line ${b.line}: "${b.bench}"`)}
+        />
+        <ReportSection
+          title="Duplicate samples"
+          items={csvReport.duplicates.map(
+            (d) => `Line ${d.line}: ${d.personId} at ${d.tSec}s (first on line ${d.firstLine})`
+          )}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,25 +1,56 @@
 import * as React from "react";
-import { ROOM, polarToCartesian } from "@/lib/roomGeometry";
+import { arcSpanDeg, BENCH_RADIUS_FACTOR, polarToCartesian, type RoomGeometry } from "@/lib/roomGeometry";
+import { useShallow } from "zustand/react/shallow";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { occupancyAt } from "@/lib/benchSeats";
+import { obstaclePath } from "@/lib/obstacles";
 
 interface CircularGridProps {
   size?: number;
   className?: string;
+  room?: RoomGeometry; // defaults to the loaded session's layout
+  showOccupancy?: boolean; // fill bench arcs by occupied seats at the current time
+  showLabels?: boolean; // sector, ring and cardinal labels (defaults to the store's toggle)
 }
 
+// Helper: SVG path for a counter-clockwise arc (sweep flag 0 because SVG Y is inverted)
+const arcPath = (center: number, radius: number, startDeg: number, endDeg: number): string => {
+  const startPos = polarToCartesian(center, center, radius, startDeg);
+  const endPos = polarToCartesian(center, center, radius, endDeg);
+  const largeArcFlag = arcSpanDeg(startDeg, endDeg) > 180 ? 1 : 0;
+  return `M ${startPos.x} ${startPos.y} A ${radius} ${radius} 0 ${largeArcFlag} 0 ${endPos.x} ${endPos.y}`;
+};
+
 /**
- * CircularGrid: Draws a circular grid matching the CSV reference
- * - 10 sectors (36° each)
- * - 5 rings
+ * CircularGrid: Draws the circular grid of the active room layout
+ * - Sectors and rings from the layout (10 × 36° and 5 rings by default)
  * - 0° = right, 90° = top, counter-clockwise
- * - Benches at specified positions
+ * - Benches at specified positions, filled by seat occupancy; doorways just outside the rim
+ * - Obstacles (fixed furniture) as shaded outlines
+ * - Optional labels: sectors outside the rim, rings along the 0° line, cardinals inside
  */
 export const CircularGrid: React.FC<CircularGridProps> = ({
   size = 520,
   className = "",
+  room,
+  showOccupancy = true,
+  showLabels,
 }) => {
+  const showGridLabels = usePeoplePlaybackStore((state) => state.showGridLabels);
+  const sessionRoom = usePeoplePlaybackStore((state) => state.roomGeometry);
+  // Seats taken per bench now; re-renders only when a count changes, not every frame
+  const occupiedSeats = usePeoplePlaybackStore(
+    useShallow((state) =>
+      Object.fromEntries(
+        Object.entries(state.benchOccupancy).map(([benchId, series]) => [benchId, occupancyAt(series, state.timeSec)])
+      )
+    )
+  );
+  const activeRoom = room ?? sessionRoom;
   const center = size / 2;
   const maxRadius = size / 2 - 20; // padding
-  const benchRadius = maxRadius * 0.92; // Bench arcs slightly inside the rim
+  const benchRadius = maxRadius * BENCH_RADIUS_FACTOR; // Bench arcs slightly inside the rim
+  const doorwayRadius = maxRadius + 8; // Doorways just outside the rim
 
   return (
     <svg
@@ -27,10 +58,10 @@ export const CircularGrid: React.FC<CircularGridProps> = ({
       height={size}
       viewBox={`0 0 ${size} ${size}`}
       className={className}
-      aria-label="Circular grid visualization with 10 sectors and 5 rings"
+      aria-label={`Circular grid visualization with ${activeRoom.sectors} sectors and ${activeRoom.rings} rings`}
     >
       {/* Concentric rings (5 rings) */}
-      {ROOM.ringRadiusFactors.map((factor, i) => {
+      {activeRoom.ringRadiusFactors.map((factor, i) => {
         const radius = maxRadius * factor;
         return (
           <circle
@@ -48,8 +79,8 @@ export const CircularGrid: React.FC<CircularGridProps> = ({
       })}
 
       {/* Radial sector lines (10 sectors = 36° each) */}
-      {Array.from({ length: ROOM.sectors }).map((_, i) => {
-        const angleDeg = i * ROOM.sectorSizeDeg;
+      {Array.from({ length: activeRoom.sectors }).map((_, i) => {
+        const angleDeg = activeRoom.angleZeroDeg + i * activeRoom.sectorSizeDeg;
         const outerPoint = polarToCartesian(center, center, maxRadius, angleDeg);
         return (
           <line
@@ -67,21 +98,14 @@ export const CircularGrid: React.FC<CircularGridProps> = ({
       })}
 
       {/* Bench arcs */}
-      {ROOM.benches.map((bench) => {
-        const startPos = polarToCartesian(center, center, benchRadius, bench.startDeg);
-        const endPos = polarToCartesian(center, center, benchRadius, bench.endDeg);
-        
-        const arcSpan = bench.endDeg - bench.startDeg;
-        const largeArcFlag = arcSpan > 180 ? 1 : 0;
-        
-        // SVG arc path: sweep flag = 0 for counter-clockwise (since Y is inverted in SVG)
-        const pathData = [
-          `M ${startPos.x} ${startPos.y}`,
-          `A ${benchRadius} ${benchRadius} 0 ${largeArcFlag} 0 ${endPos.x} ${endPos.y}`,
-        ].join(" ");
+      {activeRoom.benches.map((bench) => {
+        const pathData = arcPath(center, benchRadius, bench.startDeg, bench.endDeg);
+        const span = arcSpanDeg(bench.startDeg, bench.endDeg);
+        const occupied = showOccupancy ? Math.min(bench.seats, (occupiedSeats[bench.id] ?? 0)) : 0;
 
         return (
           <g key={bench.id}>
+            <title>{`${bench.label}: ${occupied}/${bench.seats} seats taken`}</title>
             {/* Bench arc */}
             <path
               d={pathData}
@@ -90,12 +114,136 @@ export const CircularGrid: React.FC<CircularGridProps> = ({
               strokeWidth="12"
               opacity="0.6"
             />
+
+            {/* Occupancy fill, solid and outlined once the bench is full */}
+            {occupied > 0 && (
+              <path
+                d={arcPath(center, benchRadius, bench.startDeg, bench.startDeg + (span * occupied) / bench.seats)}
+                fill="none"
+                stroke={bench.color}
+                strokeWidth={occupied === bench.seats ? 14 : 12}
+                opacity={occupied === bench.seats ? 1 : 0.75}
+              />
+            )}
+
+            {/* Seat dividers */}
+            {Array.from({ length: bench.seats - 1 }, (_, i) => {
+              const angleDeg = bench.startDeg + (span * (i + 1)) / bench.seats;
+              const inner = polarToCartesian(center, center, benchRadius - 7, angleDeg);
+              const outer = polarToCartesian(center, center, benchRadius + 7, angleDeg);
+              return (
+                <line
+                  key={i}
+                  x1={inner.x}
+                  y1={inner.y}
+                  x2={outer.x}
+                  y2={outer.y}
+                  stroke="hsl(var(--background))"
+                  strokeWidth="1.5"
+                />
+              );
+            })}
           </g>
         );
       })}
+
+      {/* Obstacles */}
+      {activeRoom.obstacles.map((obstacle) => (
+        <path
+          key={obstacle.id}
+          d={obstaclePath(obstacle, center, maxRadius)}
+          fill="#CFBD94"
+          fillOpacity="0.25"
+          stroke="#CFBD94"
+          strokeWidth="2"
+        >
+          <title>{obstacle.label}</title>
+        </path>
+      ))}
+
+      {/* Sector, ring and cardinal labels */}
+      {(showLabels ?? showGridLabels) && (
+        <g className="font-mori" fill="#CFBD94" fontSize="10" pointerEvents="none">
+          {activeRoom.sectorLabels.map((label, i) => {
+            const angleDeg = activeRoom.angleZeroDeg + (i + 0.5) * activeRoom.sectorSizeDeg;
+            const { x, y } = polarToCartesian(center, center, maxRadius + 12, angleDeg);
+            return (
+              <text key={`sector-label-${i}`} x={x} y={y} textAnchor="middle" dominantBaseline="middle">
+                {label}
+              </text>
+            );
+          })}
+          {activeRoom.ringLabels.map((label, i) => {
+            const { x, y } = polarToCartesian(center, center, maxRadius * activeRoom.ringRadiusFactors[i], activeRoom.angleZeroDeg);
+            return (
+              <text key={`ring-label-${i}`} x={x - 3} y={y - 4} textAnchor="end" opacity="0.8">
+                {label}
+              </text>
+            );
+          })}
+          {activeRoom.cardinals.map((cardinal) => {
+            const { x, y } = polarToCartesian(center, center, maxRadius - 30, cardinal.angleDeg);
+            return (
+              <text
+                key={`cardinal-${cardinal.angleDeg}`}
+                x={x}
+                y={y}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize="9"
+                opacity="0.7"
+              >
+                {cardinal.label}
+              </text>
+            );
+          })}
+        </g>
+      )}
+
+      {/* Doorways */}
+      {activeRoom.doorways.map((zone) => (
+        <path
+          key={zone.id}
+          d={arcPath(center, doorwayRadius, zone.startDeg, zone.endDeg)}
+          fill="none"
+          stroke="#CFBD94"
+          strokeWidth="4"
+          strokeDasharray="2 6"
+          strokeLinecap="round"
+          opacity="0.8"
+        >
+          <title>{zone.label}</title>
+        </path>
+      ))}
     </svg>
   );
 };
 
+interface ObstacleMaskProps {
+  id: string;
+  size?: number;
+  room?: RoomGeometry; // defaults to the loaded session's layout
+}
+
+/**
+ * ObstacleMask: SVG <mask> that hides whatever is drawn over obstacles
+ * Place inside <defs> and apply with mask="url(#id)"
+ */
+export const ObstacleMask: React.FC<ObstacleMaskProps> = ({ id, size = 520, room }) => {
+  const sessionRoom = usePeoplePlaybackStore((state) => state.roomGeometry);
+  const activeRoom = room ?? sessionRoom;
+  const center = size / 2;
+  const maxRadius = size / 2 - 20;
+
+  return (
+    <mask id={id} maskUnits="userSpaceOnUse" x={0} y={0} width={size} height={size}>
+      <rect width={size} height={size} fill="white" />
+      {activeRoom.obstacles.map((obstacle) => (
+        <path key={obstacle.id} d={obstaclePath(obstacle, center, maxRadius)} fill="black" />
+      ))}
+    </mask>
+  );
+};
+
 // Re-export polarToCartesian for convenience
 export { polarToCartesian };
\ No newline at end of file
@@ -0,0 +1,49 @@
+import * as React from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+
+const MAX_LISTED = 20; // per file, the rest is summarized
+
+/**
+ * DataErrorsPanel: Dismissible list of schema violations in loaded data files
+ */
+export const DataErrorsPanel: React.FC = () => {
+  const dataErrors = usePeoplePlaybackStore((state) => state.dataErrors);
+  const dismissDataErrors = usePeoplePlaybackStore((state) => state.dismissDataErrors);
+
+  if (dataErrors.length === 0) return null;
+
+  return (
+    <div role="alert" className="rounded-lg border border-destructive/50 bg-card text-card-foreground shadow-lg text-xs">
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <div>
+          <div className="text-sm font-semibold text-destructive">Invalid data files</div>
+          <div className="text-muted-foreground">
+            {dataErrors.length} file{dataErrors.length === 1 ? "" : "s"} could not be used
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" onClick={dismissDataErrors} aria-label="Dismiss data errors">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="max-h-72 space-y-3 overflow-y-auto px-4 py-3">
+        {dataErrors.map((error) => (
+          <div key={`${error.kind}:${error.source}`} className="space-y-1">
+            <div className="font-medium">
+              {error.source} <span className="text-muted-foreground">({error.kind})</span>
+            </div>
+            <ul className="space-y-0.5 text-muted-foreground">
+              {error.issues.slice(0, MAX_LISTED).map((issue, i) => (
+                <li key={i}>
+                  <code>{issue.path}</code>: {issue.message}
+                </li>
+              ))}
+              {error.issues.length > MAX_LISTED && <li>…and {error.issues.length - MAX_LISTED} more</li>}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
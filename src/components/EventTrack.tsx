@@ -0,0 +1,169 @@
+import * as React from "react";
+import { ListFilter } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import {
+  SESSION_EVENT_COLORS,
+  SESSION_EVENT_KINDS,
+  SESSION_EVENT_LABELS,
+  type EventFilter,
+  type SessionEvent,
+  type SessionEventKind,
+} from "@/lib/sessionEvents";
+
+// Select value for "everyone"
+const ALL_PEOPLE = "all";
+
+// Events of one kind at one time share a marker
+type MarkerGroup = { kind: SessionEventKind; tSec: number; events: SessionEvent[] };
+
+interface EventTrackProps {
+  viewStart: number;
+  viewEnd: number;
+  filter: EventFilter;
+  formatTime: (t: number) => string;
+}
+
+/**
+ * EventTrack: One lane of coloured markers per event kind under the scrubber
+ * Hover a marker for its events, click it to seek there.
+ */
+export const EventTrack: React.FC<EventTrackProps> = ({ viewStart, viewEnd, filter, formatTime }) => {
+  const sessionEvents = usePeoplePlaybackStore((state) => state.sessionEvents);
+  const setTime = usePeoplePlaybackStore((state) => state.setTime);
+  const [hovered, setHovered] = React.useState<MarkerGroup | null>(null);
+
+  const span = Math.max(viewEnd - viewStart, 1e-6);
+  const lanes = SESSION_EVENT_KINDS.filter((kind) => filter.kinds.includes(kind));
+
+  // Visible events grouped into markers, per lane
+  const groups = React.useMemo(() => {
+    const byKey = new Map<string, MarkerGroup>();
+    for (const e of sessionEvents) {
+      if (e.tSec < viewStart || e.tSec > viewEnd || !filter.kinds.includes(e.kind)) continue;
+      if (filter.personId && e.personId !== filter.personId) continue;
+      const key = `${e.kind}@${e.tSec}`;
+      const group = byKey.get(key) ?? { kind: e.kind, tSec: e.tSec, events: [] };
+      group.events.push(e);
+      byKey.set(key, group);
+    }
+    return Array.from(byKey.values());
+  }, [sessionEvents, viewStart, viewEnd, filter]);
+
+  if (lanes.length === 0) return null;
+
+  const left = (t: number) => `${((t - viewStart) / span) * 100}%`;
+
+  return (
+    <div className="relative mt-3" onMouseLeave={() => setHovered(null)}>
+      {lanes.map((kind) => (
+        <div key={kind} className="relative h-2 my-0.5" title={SESSION_EVENT_LABELS[kind]}>
+          <div className="absolute inset-x-0 top-1/2 h-px bg-[#CFBD94]/10" />
+          {groups
+            .filter((g) => g.kind === kind)
+            .map((g) => (
+              <button
+                key={g.tSec}
+                className="absolute top-0 h-2 w-1 -ml-0.5 rounded-sm hover:scale-150 transition-transform"
+                style={{ left: left(g.tSec), backgroundColor: SESSION_EVENT_COLORS[kind] }}
+                onMouseEnter={() => setHovered(g)}
+                onClick={() => setTime(g.tSec)}
+                aria-label={`${SESSION_EVENT_LABELS[kind]} at ${formatTime(g.tSec)}`}
+              />
+            ))}
+        </div>
+      ))}
+
+      {hovered && (
+        <div
+          className="absolute bottom-full z-50 mb-1 max-w-xs -translate-x-1/2 rounded bg-black/80 px-2 py-1 text-left leading-5 text-white pointer-events-none"
+          style={{ left: left(hovered.tSec) }}
+        >
+          <div style={{ color: SESSION_EVENT_COLORS[hovered.kind] }}>
+            {formatTime(hovered.tSec)} · {SESSION_EVENT_LABELS[hovered.kind]}
+          </div>
+          {hovered.events.map((e) => (
+            <div key={`${e.personId}-${e.line}`} className="whitespace-nowrap">
+              {e.personId} {e.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface EventFilterMenuProps {
+  filter: EventFilter;
+  onChange: (filter: EventFilter) => void;
+}
+
+/**
+ * EventFilterMenu: Picks the event kinds and the person the timeline shows
+ */
+export const EventFilterMenu: React.FC<EventFilterMenuProps> = ({ filter, onChange }) => {
+  const sessionEvents = usePeoplePlaybackStore((state) => state.sessionEvents);
+  const csvPositions = usePeoplePlaybackStore((state) => state.csvPositions);
+  const personIds = React.useMemo(() => (csvPositions ? Object.keys(csvPositions).sort() : []), [csvPositions]);
+
+  const counts = React.useMemo(() => {
+    const byKind = Object.fromEntries(SESSION_EVENT_KINDS.map((k) => [k, 0])) as Record<SessionEventKind, number>;
+    sessionEvents.forEach((e) => {
+      if (!filter.personId || e.personId === filter.personId) byKind[e.kind]++;
+    });
+    return byKind;
+  }, [sessionEvents, filter.personId]);
+
+  const toggleKind = (kind: SessionEventKind, on: boolean) =>
+    onChange({
+      ...filter,
+      kinds: SESSION_EVENT_KINDS.filter((k) => (k === kind ? on : filter.kinds.includes(k))),
+    });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="flex items-center gap-1 hover:opacity-70 transition-opacity">
+          <ListFilter className="h-3 w-3" />
+          Events
+          {(filter.kinds.length < SESSION_EVENT_KINDS.length || filter.personId) && " (filtered)"}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3 text-sm">
+        {SESSION_EVENT_KINDS.map((kind) => (
+          <div key={kind} className="flex items-center gap-2">
+            <Checkbox
+              id={`event-kind-${kind}`}
+              checked={filter.kinds.includes(kind)}
+              onCheckedChange={(checked) => toggleKind(kind, checked === true)}
+            />
+            <span className="h-3 w-1 rounded-sm" style={{ backgroundColor: SESSION_EVENT_COLORS[kind] }} />
+            <Label htmlFor={`event-kind-${kind}`} className="flex-1">
+              {SESSION_EVENT_LABELS[kind]}
+            </Label>
+            <span className="text-xs text-muted-foreground">{counts[kind]}</span>
+          </div>
+        ))}
+        <Select
+          value={filter.personId ?? ALL_PEOPLE}
+          onValueChange={(value) => onChange({ ...filter, personId: value === ALL_PEOPLE ? null : value })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_PEOPLE}>Everyone</SelectItem>
+            {personIds.map((id) => (
+              <SelectItem key={id} value={id}>
+                {id}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,96 @@
+import * as React from "react";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { areaM2, benchAt, cartesianToPolar, cellAreaM2, densityPerM2, gridCellAt, toMetres } from "@/lib/roomGeometry";
+import { isOutside } from "@/lib/doorways";
+
+interface GridReadoutProps {
+  size?: number;
+  children: React.ReactNode;
+}
+
+/**
+ * GridReadout: Wraps a layer and, while grid labels are on, shows a crosshair
+ * with the angle, radiusFactor (and metres), sector/ring code, bench and how
+ * crowded that cell is (people/m²). Pointer events still reach the layer underneath.
+ */
+export const GridReadout: React.FC<GridReadoutProps> = ({ size = 520, children }) => {
+  const showGridLabels = usePeoplePlaybackStore((state) => state.showGridLabels);
+  const roomGeometry = usePeoplePlaybackStore((state) => state.roomGeometry);
+  const peopleAtTime = usePeoplePlaybackStore((state) => state.peopleAtTime);
+  const [cursor, setCursor] = React.useState<{ x: number; y: number } | null>(null);
+
+  const center = size / 2;
+  const maxRadius = size / 2 - 20;
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setCursor({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+  };
+
+  // Cursor in room coordinates (y up from the centre)
+  const position = cursor && cartesianToPolar(cursor.x - center, center - cursor.y);
+  const radiusFactor = position ? position.radius / maxRadius : 0;
+  const cell = position && gridCellAt(position.angleDeg, radiusFactor, roomGeometry);
+  const bench = position && benchAt(position.angleDeg, radiusFactor, roomGeometry);
+  const flipX = cursor && cursor.x > size - 150;
+
+  // Head counts and densities of the room and the cell under the cursor
+  const outside = radiusFactor > roomGeometry.exitRadiusFactor;
+  const inRoom = peopleAtTime.filter((p) => p.isVisible && !isOutside(undefined, p.currentRadiusFactor, roomGeometry));
+  const inCell =
+    cell && !outside
+      ? inRoom.filter((p) => {
+          const c = gridCellAt(p.currentAngleDeg, p.currentRadiusFactor, roomGeometry);
+          return c.sector === cell.sector && c.ring === cell.ring;
+        }).length
+      : 0;
+
+  return (
+    <div
+      style={{ position: "relative", zIndex: 1 }}
+      onMouseMove={showGridLabels ? handleMouseMove : undefined}
+      onMouseLeave={() => setCursor(null)}
+    >
+      {children}
+
+      {showGridLabels && cursor && position && (
+        <>
+          <svg width={size} height={size} className="absolute inset-0 pointer-events-none" style={{ zIndex: 40 }}>
+            <circle cx={center} cy={center} r={position.radius} fill="none" stroke="#CFBD94" strokeWidth="1" strokeDasharray="2 4" />
+            <line x1={center} y1={center} x2={cursor.x} y2={cursor.y} stroke="#CFBD94" strokeWidth="1" strokeDasharray="2 4" />
+            <line x1={cursor.x - 10} y1={cursor.y} x2={cursor.x + 10} y2={cursor.y} stroke="#CFBD94" strokeWidth="1.5" />
+            <line x1={cursor.x} y1={cursor.y - 10} x2={cursor.x} y2={cursor.y + 10} stroke="#CFBD94" strokeWidth="1.5" />
+          </svg>
+          <div
+            className="absolute pointer-events-none rounded bg-black/80 px-2 py-1 font-mori text-xs leading-5 text-white"
+            style={{
+              left: flipX ? undefined : cursor.x + 14,
+              right: flipX ? size - cursor.x + 14 : undefined,
+              top: cursor.y + 14,
+              zIndex: 41,
+            }}
+          >
+            <div>
+              {position.angleDeg.toFixed(1)}° · r {radiusFactor.toFixed(2)} ({toMetres(radiusFactor, roomGeometry).toFixed(1)} m)
+            </div>
+            <div>{outside ? "Outside" : cell?.code}</div>
+            {!outside && cell && (
+              <div>
+                {inCell} {inCell === 1 ? "person" : "people"} ·{" "}
+                {densityPerM2(inCell, cellAreaM2(cell.ring, roomGeometry)).toFixed(2)}/m²
+              </div>
+            )}
+            <div>
+              Room {inRoom.length} · {densityPerM2(inRoom.length, areaM2(roomGeometry.exitRadiusFactor, roomGeometry)).toFixed(2)}/m²
+            </div>
+            {bench && (
+              <div>
+                Bench {bench.id} · {bench.label}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import * as React from "react";
+import { Spline } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import {
+  INTERPOLATION_LABELS,
+  INTERPOLATION_MODES,
+  type InterpolationMode,
+} from "@/lib/interpolation";
+
+// Select value for "no per-person override"
+const SESSION_DEFAULT = "session";
+
+/**
+ * InterpolationPicker: Chooses how positions are interpolated between samples,
+ * for the whole session and per person
+ */
+export const InterpolationPicker: React.FC = () => {
+  const interpolation = usePeoplePlaybackStore((state) => state.interpolation);
+  const setInterpolation = usePeoplePlaybackStore((state) => state.setInterpolation);
+  const csvPositions = usePeoplePlaybackStore((state) => state.csvPositions);
+  const peopleBase = usePeoplePlaybackStore((state) => state.peopleBase);
+
+  const personIds = React.useMemo(
+    () => (csvPositions ? Object.keys(csvPositions) : peopleBase.map((p) => p.id)).sort(),
+    [csvPositions, peopleBase]
+  );
+
+  const usesHoldWithin =
+    interpolation.mode === "holdWithin" || Object.values(interpolation.perPerson).includes("holdWithin");
+
+  const setPersonMode = (personId: string, value: string) => {
+    const perPerson = { ...interpolation.perPerson };
+    if (value === SESSION_DEFAULT) delete perPerson[personId];
+    else perPerson[personId] = value as InterpolationMode;
+    setInterpolation({ perPerson });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Spline className="mr-2 h-4 w-4" />
+          {INTERPOLATION_LABELS[interpolation.mode]}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Interpolation</DialogTitle>
+          <DialogDescription>
+            How people move between recorded samples. Saved with the session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Label className="w-28 shrink-0">Session</Label>
+            <Select
+              value={interpolation.mode}
+              onValueChange={(value) => setInterpolation({ mode: value as InterpolationMode })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INTERPOLATION_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {INTERPOLATION_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {usesHoldWithin && (
+            <div className="flex items-center gap-3">
+              <Label htmlFor="hold-within" className="w-28 shrink-0">
+                Hold for (s)
+              </Label>
+              <Input
+                id="hold-within"
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={interpolation.holdWithinSec}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (value > 0) setInterpolation({ holdWithinSec: value });
+                }}
+              />
+            </div>
+          )}
+
+          {personIds.length > 0 && (
+            <div className="space-y-2">
+              <Label>Per person</Label>
+              <ul className="max-h-72 space-y-2 overflow-y-auto pr-1">
+                {personIds.map((id) => (
+                  <li key={id} className="flex items-center gap-3">
+                    <span className="w-28 shrink-0 truncate text-sm">{id}</span>
+                    <Select
+                      value={interpolation.perPerson[id] ?? SESSION_DEFAULT}
+                      onValueChange={(value) => setPersonMode(id, value)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SESSION_DEFAULT}>Session default</SelectItem>
+                        {INTERPOLATION_MODES.map((mode) => (
+                          <SelectItem key={mode} value={mode}>
+                            {INTERPOLATION_LABELS[mode]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
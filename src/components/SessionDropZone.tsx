@@ -0,0 +1,141 @@
+import * as React from "react";
+import { toast } from "sonner";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { readSessionFiles, SessionImportError } from "@/lib/sessionImport";
+import { saveSession } from "@/lib/sessionLibrary";
+import { ROOM, cloneRoomGeometry } from "@/lib/roomGeometry";
+
+interface SessionDropZoneProps {
+  className?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * SessionDropZone: Accepts a positions CSV, people JSON and optional motion
+ * schedule / session manifest / room layout by drag-and-drop (or file dialog)
+ * and loads them as a new session
+ */
+export const SessionDropZone: React.FC<SessionDropZoneProps> = ({ className = "", children }) => {
+  const importSession = usePeoplePlaybackStore((state) => state.importSession);
+  const reportDataError = usePeoplePlaybackStore((state) => state.reportDataError);
+  const setActiveSession = usePeoplePlaybackStore((state) => state.setActiveSession);
+  const [isDragging, setIsDragging] = React.useState(false);
+  const dragDepthRef = React.useRef(0);
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const importFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    try {
+      const { session, errors, warnings, csvFileName } = await readSessionFiles(files);
+      if (!session) {
+        errors.forEach(reportDataError);
+        toast.error(`Import cancelled: ${errors.length} invalid file${errors.length === 1 ? "" : "s"}`);
+        return;
+      }
+      warnings.forEach((w) => toast.warning(w));
+      const report = importSession(session);
+      toast.success(
+        report
+          ? `Session imported: ${report.acceptedRows} of ${report.totalRows} rows loaded`
+          : "Session imported"
+      );
+
+      // Keep it in the session library so it survives reloads
+      try {
+        const stored = await saveSession({
+          title: session.manifest?.title || csvFileName.replace(/\.[^.]+$/, "") || "Untitled session",
+          date: session.manifest?.date ?? new Date().toISOString().slice(0, 10),
+          location: session.manifest?.location ?? "",
+          csvText: session.csvText,
+          peopleBase: session.peopleBase ?? [],
+          motionSchedule: session.motionSchedule ?? null,
+          manifest: session.manifest ?? null,
+          roomGeometry: session.roomGeometry ?? cloneRoomGeometry(ROOM),
+        });
+        const { id, title, date, location, createdAt } = stored;
+        setActiveSession({ id, title, date, location, createdAt });
+      } catch (err) {
+        console.error("Failed to save session to library:", err);
+        toast.error("Session loaded but could not be saved to the library");
+      }
+    } catch (err) {
+      if (err instanceof SessionImportError) {
+        toast.error(err.message);
+      } else {
+        console.error("Failed to import session:", err);
+        toast.error("Failed to import session");
+      }
+    }
+  };
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragging(false);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    importFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    importFiles(Array.from(e.target.files ?? []));
+    e.target.value = ""; // allow re-importing the same files
+  };
+
+  return (
+    <div
+      className={`relative ${className}`}
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
+      {children}
+
+      {/* Import button */}
+      <div className="absolute top-0 right-0 z-40">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.txt,.json"
+          multiple
+          className="hidden"
+          onChange={handleFileInput}
+        />
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          Import session
+        </Button>
+      </div>
+
+      {/* Drop overlay */}
+      {isDragging && (
+        <div
+          className="absolute inset-0 z-50 flex items-center justify-center rounded-lg border-4 border-dashed pointer-events-none font-mori"
+          style={{ borderColor: '#CFBD94', color: '#CFBD94', background: 'rgba(255, 255, 255, 0.7)', fontSize: '21px' }}
+        >
+          Drop positions CSV, people JSON, motion schedule, session manifest and room layout
+        </div>
+      )}
+    </div>
+  );
+};
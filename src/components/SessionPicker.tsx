@@ -0,0 +1,215 @@
+import * as React from "react";
+import { toast } from "sonner";
+import { FolderOpen, Gauge, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { DEFAULT_BENCHMARK, generateBenchmarkSession } from "@/lib/benchmarkSession";
+import {
+  deleteSession,
+  listSessions,
+  updateSessionInfo,
+  type SessionInfo,
+  type SessionSummary,
+} from "@/lib/sessionLibrary";
+
+interface SessionRowProps {
+  session: SessionSummary;
+  isActive: boolean;
+  onLoad: () => void;
+  onSave: (info: SessionInfo) => void;
+  onDelete: () => void;
+}
+
+const SessionRow: React.FC<SessionRowProps> = ({ session, isActive, onLoad, onSave, onDelete }) => {
+  const [editing, setEditing] = React.useState(false);
+  const [confirmDelete, setConfirmDelete] = React.useState(false);
+  const [draft, setDraft] = React.useState<SessionInfo>(session);
+
+  if (editing) {
+    return (
+      <li className="space-y-2 rounded border p-3">
+        <Input
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          placeholder="Title"
+          aria-label="Session title"
+        />
+        <div className="flex gap-2">
+          <Input
+            type="date"
+            value={draft.date}
+            onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+            aria-label="Observation date"
+          />
+          <Input
+            value={draft.location}
+            onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+            placeholder="Location"
+            aria-label="Location"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => { setDraft(session); setEditing(false); }}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={draft.title.trim() === ""}
+            onClick={() => { onSave({ ...draft, title: draft.title.trim() }); setEditing(false); }}
+          >
+            Save
+          </Button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className={`flex items-center gap-3 rounded border p-3 ${isActive ? "border-primary" : ""}`}>
+      <div className="min-w-0 flex-1">
+        <div className="truncate font-medium">{session.title}</div>
+        <div className="truncate text-xs text-muted-foreground">
+          {[session.date, session.location].filter(Boolean).join(" · ") || "No date or location"}
+        </div>
+      </div>
+      {confirmDelete ? (
+        <>
+          <Button variant="ghost" size="sm" onClick={() => setConfirmDelete(false)}>
+            Keep
+          </Button>
+          <Button variant="destructive" size="sm" onClick={onDelete}>
+            Delete
+          </Button>
+        </>
+      ) : (
+        <>
+          <Button variant="ghost" size="icon" onClick={() => setEditing(true)} aria-label={`Rename ${session.title}`}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => setConfirmDelete(true)} aria-label={`Delete ${session.title}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant={isActive ? "secondary" : "default"} onClick={onLoad}>
+            {isActive ? "Reload" : "Load"}
+          </Button>
+        </>
+      )}
+    </li>
+  );
+};
+
+/**
+ * SessionPicker: Lists sessions saved in the library and loads, renames or deletes them
+ */
+export const SessionPicker: React.FC = () => {
+  const activeSession = usePeoplePlaybackStore((state) => state.activeSession);
+  const setActiveSession = usePeoplePlaybackStore((state) => state.setActiveSession);
+  const loadSession = usePeoplePlaybackStore((state) => state.loadSession);
+  const importSession = usePeoplePlaybackStore((state) => state.importSession);
+  const [open, setOpen] = React.useState(false);
+  const [sessions, setSessions] = React.useState<SessionSummary[] | null>(null);
+
+  const refresh = React.useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((err) => {
+        console.error("Failed to list sessions:", err);
+        setSessions([]);
+        toast.error("Could not open the session library");
+      });
+  }, []);
+
+  React.useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const handleLoad = async (session: SessionSummary) => {
+    if (await loadSession(session.id)) {
+      setOpen(false);
+    } else {
+      toast.error(`Could not load "${session.title}"`);
+    }
+  };
+
+  const handleSave = async (session: SessionSummary, info: SessionInfo) => {
+    try {
+      await updateSessionInfo(session.id, info);
+      if (activeSession?.id === session.id) setActiveSession({ ...activeSession, ...info });
+    } catch (err) {
+      console.error("Failed to update session:", err);
+      toast.error(`Could not rename "${session.title}"`);
+    }
+    refresh();
+  };
+
+  const handleDelete = async (session: SessionSummary) => {
+    try {
+      await deleteSession(session.id);
+      if (activeSession?.id === session.id) setActiveSession(null);
+    } catch (err) {
+      console.error("Failed to delete session:", err);
+      toast.error(`Could not delete "${session.title}"`);
+    }
+    refresh();
+  };
+
+  // Development only: generated station-scale session for profiling playback
+  const handleLoadBenchmark = () => {
+    setOpen(false);
+    toast(`Generating ${DEFAULT_BENCHMARK.people} people over ${DEFAULT_BENCHMARK.durationSec / 3600} h...`);
+    // Let the toast paint before the import blocks
+    setTimeout(() => importSession(generateBenchmarkSession()), 50);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FolderOpen className="mr-2 h-4 w-4" />
+          {activeSession ? activeSession.title : "Sessions"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Session library</DialogTitle>
+          <DialogDescription>
+            Imported sessions are kept in this browser. Drop new session files on the visualization to add one.
+          </DialogDescription>
+        </DialogHeader>
+        {sessions === null ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved sessions yet.</p>
+        ) : (
+          <ul className="max-h-96 space-y-2 overflow-y-auto">
+            {sessions.map((session) => (
+              <SessionRow
+                key={session.id}
+                session={session}
+                isActive={activeSession?.id === session.id}
+                onLoad={() => handleLoad(session)}
+                onSave={(info) => handleSave(session, info)}
+                onDelete={() => handleDelete(session)}
+              />
+            ))}
+          </ul>
+        )}
+        {import.meta.env.DEV && (
+          <Button variant="ghost" size="sm" className="justify-self-start" onClick={handleLoadBenchmark}>
+            <Gauge className="mr-2 h-4 w-4" />
+            Load benchmark session
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
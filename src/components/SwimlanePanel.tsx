@@ -0,0 +1,171 @@
+import * as React from "react";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { polarToCartesian } from "@/lib/roomGeometry";
+import { formatClock, formatDuration, fractionDigitsForStep } from "@/lib/sessionClock";
+import { SESSION_EVENT_COLORS } from "@/lib/sessionEvents";
+import { buildSwimlanes, type Segment } from "@/lib/swimlanes";
+
+/**
+ * SwimlanePanel: Gantt-style overview with one row per person - presence,
+ * bench segments in the bench colours, STILL/MOVING band and note markers,
+ * with a playhead at the current time. Clicking a row seeks there and
+ * selects the person.
+ */
+export const SwimlanePanel: React.FC = () => {
+  const csvPositions = usePeoplePlaybackStore((state) => state.csvPositions);
+  const peopleBase = usePeoplePlaybackStore((state) => state.peopleBase);
+  const durationSec = usePeoplePlaybackStore((state) => state.durationSec);
+  const roomGeometry = usePeoplePlaybackStore((state) => state.roomGeometry);
+  const timeSec = usePeoplePlaybackStore((state) => state.timeSec);
+  const sessionClock = usePeoplePlaybackStore((state) => state.sessionClock);
+  const sampleStepSec = usePeoplePlaybackStore((state) => state.sampleStepSec);
+  const selectedPersonId = usePeoplePlaybackStore((state) => state.selectedPersonId);
+  const setSelectedPersonId = usePeoplePlaybackStore((state) => state.setSelectedPersonId);
+  const setTime = usePeoplePlaybackStore((state) => state.setTime);
+
+  const rows = React.useMemo(
+    () => (csvPositions ? buildSwimlanes(csvPositions, peopleBase, durationSec, roomGeometry) : []),
+    [csvPositions, peopleBase, durationSec, roomGeometry]
+  );
+  const benchColors = React.useMemo(
+    () => new Map(roomGeometry.benches.map((b) => [b.id, b.color])),
+    [roomGeometry]
+  );
+
+  if (rows.length === 0) return null;
+
+  const digits = fractionDigitsForStep(sampleStepSec);
+  const timeLabel = (tSec: number) =>
+    sessionClock.originSec !== null
+      ? formatClock(sessionClock.originSec + tSec, "24h", digits)
+      : formatDuration(tSec, digits);
+  const span = Math.max(durationSec, 1e-6);
+  const pct = (t: number) => `${(t / span) * 100}%`;
+  const segmentStyle = (s: Segment<unknown>): React.CSSProperties => ({ left: pct(s.tA), width: pct(s.tB - s.tA) });
+
+  // Seek to the clicked time (or a segment's start) and select the person
+  const pick = (personId: string, tSec: number) => {
+    setSelectedPersonId(personId);
+    setTime(tSec);
+  };
+
+  const handleTrackClick = (personId: string) => (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    pick(personId, ((e.clientX - rect.left) / rect.width) * durationSec);
+  };
+
+  return (
+    <div className="font-mori text-xs" style={{ color: '#CFBD94' }}>
+      <div className="flex justify-between pl-16 pb-1 opacity-70">
+        <span>{timeLabel(0)}</span>
+        <span>Presence · bench · moving · notes</span>
+        <span>{timeLabel(durationSec)}</span>
+      </div>
+      <div className="relative">
+        {rows.map((row) => (
+          <div
+            key={row.personId}
+            className={`flex items-center rounded ${row.personId === selectedPersonId ? "bg-[#CFBD94]/15" : ""}`}
+          >
+            <button
+              className="w-16 shrink-0 truncate pr-2 text-left hover:opacity-70"
+              onClick={() => setSelectedPersonId(row.personId === selectedPersonId ? null : row.personId)}
+              aria-pressed={row.personId === selectedPersonId}
+            >
+              {row.personId}
+            </button>
+            <div className="relative h-5 flex-1 cursor-pointer" onClick={handleTrackClick(row.personId)}>
+              {/* Presence */}
+              {row.presence.map((s) => (
+                <div
+                  key={`p${s.tA}`}
+                  className="absolute inset-y-0 rounded-sm bg-[#CFBD94]/20"
+                  style={segmentStyle(s)}
+                  title={`In the room ${timeLabel(s.tA)}–${timeLabel(s.tB)}`}
+                />
+              ))}
+
+              {/* Bench segments */}
+              {row.benches.map((s) => (
+                <div
+                  key={`b${s.tA}`}
+                  className="absolute top-1 h-2 rounded-sm"
+                  style={{ ...segmentStyle(s), backgroundColor: benchColors.get(s.value) }}
+                  title={`${s.value} ${timeLabel(s.tA)}–${timeLabel(s.tB)}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    pick(row.personId, s.tA);
+                  }}
+                />
+              ))}
+
+              {/* STILL/MOVING band */}
+              {row.motion
+                .filter((s) => s.value === "MOVING")
+                .map((s) => (
+                  <div
+                    key={`m${s.tA}`}
+                    className="absolute bottom-0 h-1 bg-[#CFBD94]"
+                    style={segmentStyle(s)}
+                    title={`Moving ${timeLabel(s.tA)}–${timeLabel(s.tB)}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      pick(row.personId, s.tA);
+                    }}
+                  />
+                ))}
+
+              {/* Notes */}
+              {row.notes.map((n) => (
+                <div
+                  key={`n${n.tSec}`}
+                  className="absolute top-0 h-5 w-1 -ml-0.5 rounded-sm"
+                  style={{ left: pct(n.tSec), backgroundColor: SESSION_EVENT_COLORS.note }}
+                  title={`${timeLabel(n.tSec)} “${n.text}”`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    pick(row.personId, n.tSec);
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {/* Playhead */}
+        <div className="absolute inset-y-0 ml-16 right-0 pointer-events-none">
+          <div className="absolute inset-y-0 w-px bg-white" style={{ left: pct(Math.min(timeSec, durationSec)) }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface SelectedPersonHighlightProps {
+  size?: number;
+}
+
+/**
+ * SelectedPersonHighlight: Rings the person selected in the swimlanes on the grid
+ */
+export const SelectedPersonHighlight: React.FC<SelectedPersonHighlightProps> = ({ size = 520 }) => {
+  const selectedPersonId = usePeoplePlaybackStore((state) => state.selectedPersonId);
+  const person = usePeoplePlaybackStore((state) =>
+    state.peopleAtTime.find((p) => p.id === state.selectedPersonId && p.isVisible)
+  );
+
+  if (!selectedPersonId || !person) return null;
+
+  const center = size / 2;
+  const maxRadius = size / 2 - 20;
+  const { x, y } = polarToCartesian(center, center, maxRadius * person.currentRadiusFactor, person.currentAngleDeg);
+
+  return (
+    <svg width={size} height={size} className="absolute inset-0 pointer-events-none" style={{ zIndex: 30 }}>
+      <circle cx={x} cy={y} r={16} fill="none" stroke="#CFBD94" strokeWidth={2} />
+      <text x={x} y={y - 22} textAnchor="middle" fontSize={11} fill="#CFBD94" className="font-mori">
+        {person.id}
+      </text>
+    </svg>
+  );
+};
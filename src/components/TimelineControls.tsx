@@ -1,23 +1,236 @@
 import * as React from "react";
-import { Slider } from "@/components/ui/slider";
+import { X } from "lucide-react";
 import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { formatClock, formatDuration, fractionDigitsForStep } from "@/lib/sessionClock";
+import { DEFAULT_EVENT_FILTER, type EventFilter } from "@/lib/sessionEvents";
+import { EventFilterMenu, EventTrack } from "@/components/EventTrack";
+
+// Tick spacings to choose from, seconds
+const TICK_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
+
+// Aim for about this many labelled ticks across the visible range
+const TARGET_TICKS = 8;
+
+// Narrowest visible range, seconds (or 10 samples, if that is narrower)
+const MIN_SPAN_SEC = 5;
+
+// Zoom factor per wheel notch
+const WHEEL_ZOOM = 1.2;
+
+// Length of the A–B range created around the playhead, seconds
+const DEFAULT_RANGE_SEC = 20;
+
+type DragTarget = "playhead" | "A" | "B";
 
 /**
- * TimelineControls: Scrubber and speed selector for playback control
+ * TimelineControls: Zoomable scrubber with wall-clock ticks, an A–B loop range
+ * and session event markers underneath. Wheel zooms around the pointer (Shift+wheel pans), double-click resets the
+ * zoom; drag anywhere to scrub and drag the A/B handles to move the range.
  */
 export const TimelineControls: React.FC = () => {
-  const { timeSec, durationSec, setTime } = usePeoplePlaybackStore();
-  
+  const timeSec = usePeoplePlaybackStore((state) => state.timeSec);
+  const durationSec = usePeoplePlaybackStore((state) => state.durationSec);
+  const sampleStepSec = usePeoplePlaybackStore((state) => state.sampleStepSec);
+  const sessionClock = usePeoplePlaybackStore((state) => state.sessionClock);
+  const isPlaying = usePeoplePlaybackStore((state) => state.isPlaying);
+  const loopRange = usePeoplePlaybackStore((state) => state.loopRange);
+  const setLoopRange = usePeoplePlaybackStore((state) => state.setLoopRange);
+  const setTime = usePeoplePlaybackStore((state) => state.setTime);
+
+  const [view, setView] = React.useState({ start: 0, end: durationSec });
+  const [dragging, setDragging] = React.useState<DragTarget | null>(null);
+  const [eventFilter, setEventFilter] = React.useState<EventFilter>(DEFAULT_EVENT_FILTER);
+  const trackRef = React.useRef<HTMLDivElement>(null);
+
+  const step = Math.min(1, sampleStepSec);
+  const minSpan = Math.min(MIN_SPAN_SEC, durationSec, sampleStepSec * 10);
+  const span = Math.max(view.end - view.start, 1e-6);
+  const isZoomed = view.start > 0 || view.end < durationSec;
+
+  // New session: show all of it
+  React.useEffect(() => {
+    setView({ start: 0, end: durationSec });
+  }, [durationSec]);
+
+  // Keep a playing playhead in view by paging the zoomed range
+  React.useEffect(() => {
+    if (!isPlaying || dragging || (timeSec >= view.start && timeSec <= view.end)) return;
+    const start = Math.max(0, Math.min(durationSec - span, timeSec - span * 0.1));
+    setView({ start, end: start + span });
+  }, [timeSec, isPlaying, dragging, view, span, durationSec]);
+
+  // Helper: clamp a range of the given width into the session
+  const clampView = React.useCallback(
+    (start: number, width: number) => {
+      const w = Math.min(durationSec, Math.max(minSpan, width));
+      const s = Math.max(0, Math.min(durationSec - w, start));
+      return { start: s, end: s + w };
+    },
+    [durationSec, minSpan]
+  );
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  React.useEffect(() => {
+    const el = trackRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+      setView((v) => {
+        const width = v.end - v.start;
+        if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+          const delta = (e.shiftKey ? e.deltaY : e.deltaX) / rect.width;
+          return clampView(v.start + delta * width, width);
+        }
+        const anchor = v.start + fraction * width;
+        const next = e.deltaY < 0 ? width / WHEEL_ZOOM : width * WHEEL_ZOOM;
+        return clampView(anchor - fraction * next, next);
+      });
+    };
+    el.addEventListener("wheel", handleWheel, { passive: false });
+    return () => el.removeEventListener("wheel", handleWheel);
+  }, [clampView]);
+
+  // Helper: pointer x → session time, snapped to the scrubbing step
+  const timeAt = (clientX: number): number => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const t = view.start + ((clientX - rect.left) / rect.width) * span;
+    return Math.max(0, Math.min(durationSec, Math.round(t / step) * step));
+  };
+
+  const applyDrag = (target: DragTarget, t: number) => {
+    if (target === "playhead") setTime(t);
+    else if (loopRange && target === "A") setLoopRange({ startSec: Math.min(t, loopRange.endSec - step), endSec: loopRange.endSec });
+    else if (loopRange && target === "B") setLoopRange({ startSec: loopRange.startSec, endSec: Math.max(t, loopRange.startSec + step) });
+  };
+
+  const handlePointerDown = (target: DragTarget) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    trackRef.current?.setPointerCapture(e.pointerId);
+    setDragging(target);
+    applyDrag(target, timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging) applyDrag(dragging, timeAt(e.clientX));
+  };
+
+  // Helper: session time → left offset in the visible range
+  const left = (t: number) => `${((t - view.start) / span) * 100}%`;
+
+  // Tick labels: wall-clock when the session has an origin, else elapsed
+  const tickStep = TICK_STEPS.find((s) => span / s <= TARGET_TICKS) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const digits = fractionDigitsForStep(tickStep);
+  const ticks: number[] = [];
+  for (let k = Math.ceil(view.start / tickStep - 1e-9); k * tickStep <= view.end + 1e-9; k++) ticks.push(k * tickStep);
+  const label = (t: number) =>
+    sessionClock.originSec !== null ? formatClock(sessionClock.originSec + t, "24h", digits) : formatDuration(t, digits);
+
+  const toggleRange = () => {
+    if (loopRange) {
+      setLoopRange(null);
+      return;
+    }
+    const start = Math.max(0, Math.min(durationSec - DEFAULT_RANGE_SEC, timeSec - DEFAULT_RANGE_SEC / 2));
+    setLoopRange({ startSec: start, endSec: start + DEFAULT_RANGE_SEC });
+  };
+
+  const inView = (t: number) => t >= view.start && t <= view.end;
+
   return (
-    <div className="w-full max-w-2xl mx-auto">
-      <Slider
-        value={[timeSec]}
-        onValueChange={(v) => setTime(v[0])}
-        min={0}
-        max={durationSec}
-        step={1}
-        className="w-full"
-      />
+    <div className="w-full max-w-2xl mx-auto font-mori text-xs" style={{ color: '#CFBD94' }}>
+      <div
+        ref={trackRef}
+        className="relative h-10 cursor-pointer select-none touch-none"
+        onPointerDown={handlePointerDown("playhead")}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+        onDoubleClick={() => setView({ start: 0, end: durationSec })}
+        role="slider"
+        aria-label="Playback position"
+        aria-valuemin={0}
+        aria-valuemax={durationSec}
+        aria-valuenow={timeSec}
+      >
+        {/* Track */}
+        <div className="absolute inset-x-0 top-4 h-1 rounded bg-[#CFBD94]/30" />
+        <div
+          className="absolute left-0 top-4 h-1 rounded bg-[#CFBD94]"
+          style={{ width: left(Math.max(view.start, Math.min(view.end, timeSec))) }}
+        />
+
+        {/* A–B range */}
+        {loopRange && (
+          <>
+            <div
+              className="absolute top-2 h-5 bg-[#CFBD94]/20 pointer-events-none"
+              style={{
+                left: left(Math.max(view.start, loopRange.startSec)),
+                width: `${(Math.max(0, Math.min(view.end, loopRange.endSec) - Math.max(view.start, loopRange.startSec)) / span) * 100}%`,
+              }}
+            />
+            {(["A", "B"] as const).map((handle) => {
+              const t = handle === "A" ? loopRange.startSec : loopRange.endSec;
+              return (
+                inView(t) && (
+                  <div
+                    key={handle}
+                    className="absolute top-0 -ml-2 flex h-9 w-4 cursor-ew-resize flex-col items-center"
+                    style={{ left: left(t) }}
+                    onPointerDown={handlePointerDown(handle)}
+                    title={`${handle}: ${label(t)}`}
+                  >
+                    <span className="leading-none">{handle}</span>
+                    <div className="w-0.5 flex-1 bg-[#CFBD94]" />
+                  </div>
+                )
+              );
+            })}
+          </>
+        )}
+
+        {/* Playhead */}
+        {inView(timeSec) && (
+          <div
+            className="absolute top-2.5 -ml-2 h-4 w-4 rounded-full border-2 border-[#CFBD94] bg-background"
+            style={{ left: left(timeSec) }}
+          />
+        )}
+
+        {/* Ticks */}
+        {ticks.map((t) => (
+          <div key={t} className="absolute top-6 -translate-x-1/2 pointer-events-none" style={{ left: left(t) }}>
+            <div className="mx-auto h-1.5 w-px bg-[#CFBD94]/60" />
+            <div className="whitespace-nowrap opacity-70">{label(t)}</div>
+          </div>
+        ))}
+      </div>
+
+      <EventTrack viewStart={view.start} viewEnd={view.end} filter={eventFilter} formatTime={label} />
+
+      {/* A–B, event filter and zoom controls */}
+      <div className="mt-3 flex items-center justify-between opacity-80">
+        <div className="flex items-center gap-2">
+          <button onClick={toggleRange} className="hover:opacity-70 transition-opacity" aria-pressed={!!loopRange}>
+            {loopRange ? `A–B ${label(loopRange.startSec)}–${label(loopRange.endSec)}` : "Set A–B loop"}
+          </button>
+          {loopRange && (
+            <button onClick={() => setLoopRange(null)} className="hover:opacity-70" aria-label="Clear A–B loop">
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+        <EventFilterMenu filter={eventFilter} onChange={setEventFilter} />
+        {isZoomed ? (
+          <button onClick={() => setView({ start: 0, end: durationSec })} className="hover:opacity-70 transition-opacity">
+            Zoomed {label(view.start)}–{label(view.end)} · reset
+          </button>
+        ) : (
+          <span className="opacity-60">Scroll to zoom</span>
+        )}
+      </div>
     </div>
   );
 };
@@ -1,33 +1,108 @@
 import * as React from "react";
 import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import {
+  formatClock,
+  formatDuration,
+  fractionDigitsForStep,
+  timeZoneLabel,
+  type ClockFormat,
+} from "@/lib/sessionClock";
+
+type TimerMode = "clock" | "elapsed" | "remaining";
+
+const modeLabels: Record<TimerMode, string> = {
+  clock: "Clock",
+  elapsed: "Elapsed",
+  remaining: "Remaining",
+};
 
 /**
- * Timer: Displays count-up from 00:00 to 05:00 (display-only, no interaction)
+ * Timer: Session wall-clock (origin from manifest or CSV time column),
+ * elapsed or remaining time. Shows the session's end caption once complete.
+ * Sub-second sessions show as many decimals as their sampling step needs.
  */
 export const Timer: React.FC = () => {
-  const { timeSec, durationSec } = usePeoplePlaybackStore();
+  const { timeSec, durationSec, sampleStepSec, sessionClock } = usePeoplePlaybackStore();
+  const [mode, setMode] = React.useState<TimerMode>("clock");
+  const [format, setFormat] = React.useState<ClockFormat>("12h");
+
   const isComplete = timeSec >= durationSec;
-  
-  // Wall-clock: 4:56:00 PM to 4:59:00 PM (integer seconds only)
   const t = Math.min(durationSec, Math.max(0, timeSec));
-  const tInt = Math.floor(t); // Ensure NO decimals
-  
-  const start = { h: 16, m: 56, s: 0 }; // 4:56:00 PM in 24h
-  const wall = (start.h * 3600 + start.m * 60 + start.s) + tInt;
-  
-  const hh24 = Math.floor(wall / 3600) % 24;
-  const mm = Math.floor((wall % 3600) / 60);
-  const ss = wall % 60;
-  
-  const hh12 = (hh24 % 12) || 12;
-  const ampm = hh24 >= 12 ? 'PM' : 'AM';
-  const display = `${hh12}:${mm.toString().padStart(2,'0')}:${ss.toString().padStart(2,'0')} ${ampm}`;
-  
+  const hasClock = sessionClock.originSec !== null;
+  const digits = fractionDigitsForStep(sampleStepSec);
+
+  // Without a wall-clock origin the clock mode falls back to elapsed time
+  const effectiveMode: TimerMode = mode === "clock" && !hasClock ? "elapsed" : mode;
+
+  let display: string;
+  switch (effectiveMode) {
+    case "clock":
+      display = formatClock(sessionClock.originSec! + t, format, digits);
+      break;
+    case "elapsed":
+      display = formatDuration(t, digits);
+      break;
+    case "remaining":
+      display = `-${formatDuration(digits > 0 ? durationSec - t : Math.ceil(durationSec - t), digits)}`;
+      break;
+  }
+
+  const tz = timeZoneLabel(sessionClock);
+  const subtitle = [sessionClock.date, effectiveMode === "clock" ? tz : null].filter(Boolean).join(" · ");
+
+  const controlStyle = (active: boolean): React.CSSProperties => ({
+    color: '#CFBD94',
+    opacity: active ? 1 : 0.5,
+    background: 'none',
+    border: 'none',
+    padding: '0 4px',
+  });
+
   return (
-    <div className="text-center pointer-events-none">
-      <span style={{ fontSize: '50pt', color: '#CFBD94' }} className="font-beretta">
-        {isComplete ? "Train arrived" : display}
-      </span>
+    <div className="text-center">
+      <div className="pointer-events-none">
+        <span style={{ fontSize: '50pt', color: '#CFBD94' }} className="font-beretta">
+          {isComplete && sessionClock.endCaption ? sessionClock.endCaption : display}
+        </span>
+        {subtitle && (
+          <div className="font-mori text-sm" style={{ color: '#CFBD94' }}>
+            {subtitle}
+          </div>
+        )}
+      </div>
+
+      {/* Display mode and clock format */}
+      <div className="font-mori text-xs flex justify-center gap-3 mt-1">
+        <div>
+          {(Object.keys(modeLabels) as TimerMode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              disabled={m === "clock" && !hasClock}
+              className="hover:opacity-70 transition-opacity disabled:cursor-not-allowed"
+              style={controlStyle(effectiveMode === m)}
+              aria-pressed={effectiveMode === m}
+            >
+              {modeLabels[m]}
+            </button>
+          ))}
+        </div>
+        {effectiveMode === "clock" && (
+          <div>
+            {(["12h", "24h"] as ClockFormat[]).map((f) => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                className="hover:opacity-70 transition-opacity"
+                style={controlStyle(format === f)}
+                aria-pressed={format === f}
+              >
+                {f}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,177 @@
+import * as React from "react";
+import {
+  ArrowLeftRight,
+  FastForward,
+  Gauge,
+  Pause,
+  Play,
+  Repeat,
+  Rewind,
+  SkipBack,
+  SkipForward,
+  StepBack,
+  StepForward,
+} from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { SMART_QUIET_SPEED, SPEED_OPTIONS, smartSpeedAt } from "@/lib/smartSpeed";
+
+// Seconds skipped by the rewind / fast-forward buttons and Shift+arrows
+const JUMP_SEC = 5;
+
+// Helper: key presses typed into a field (or a focused slider or select) are not shortcuts
+const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+    ["slider", "combobox", "listbox", "option"].includes(target.getAttribute("role") ?? ""));
+
+// Helper: "0.25×", "2×"
+const speedLabel = (speed: number) => `${speed}×`;
+
+/**
+ * TransportBar: Play/pause, step by sample or by JUMP_SEC, jump to start/end,
+ * loop, reverse, speed and smart speed, with keyboard shortcuts:
+ * Space play/pause · ←/→ previous/next sample · Shift+←/→ ∓5 s · Home/End ·
+ * L loop · R reverse · S smart speed · [ / ] slower/faster
+ */
+export const TransportBar: React.FC = () => {
+  const isPlaying = usePeoplePlaybackStore((state) => state.isPlaying);
+  const loop = usePeoplePlaybackStore((state) => state.loop);
+  const togglePlay = usePeoplePlaybackStore((state) => state.togglePlay);
+  const setLoop = usePeoplePlaybackStore((state) => state.setLoop);
+  const stepSample = usePeoplePlaybackStore((state) => state.stepSample);
+  const stepBy = usePeoplePlaybackStore((state) => state.stepBy);
+  const setTime = usePeoplePlaybackStore((state) => state.setTime);
+  const durationSec = usePeoplePlaybackStore((state) => state.durationSec);
+  const speed = usePeoplePlaybackStore((state) => state.speed);
+  const setSpeed = usePeoplePlaybackStore((state) => state.setSpeed);
+  const reverse = usePeoplePlaybackStore((state) => state.reverse);
+  const setReverse = usePeoplePlaybackStore((state) => state.setReverse);
+  const smartSpeed = usePeoplePlaybackStore((state) => state.smartSpeed);
+  const setSmartSpeed = usePeoplePlaybackStore((state) => state.setSmartSpeed);
+
+  // Rate smart speed is playing at right now
+  const effectiveSpeed = usePeoplePlaybackStore((state) =>
+    state.smartSpeed ? smartSpeedAt(state.timeSec, state.speed, state.motionTimeline, state.keyMoments) : state.speed
+  );
+
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      switch (e.key) {
+        case " ":
+          togglePlay();
+          break;
+        case "ArrowLeft":
+          if (e.shiftKey) stepBy(-JUMP_SEC);
+          else stepSample(-1);
+          break;
+        case "ArrowRight":
+          if (e.shiftKey) stepBy(JUMP_SEC);
+          else stepSample(1);
+          break;
+        case "Home":
+          setTime(0);
+          break;
+        case "End":
+          setTime(durationSec);
+          break;
+        case "l":
+        case "L":
+          setLoop(!loop);
+          break;
+        case "r":
+        case "R":
+          setReverse(!reverse);
+          break;
+        case "s":
+        case "S":
+          setSmartSpeed(!smartSpeed);
+          break;
+        case "[":
+        case "]": {
+          const i = Math.max(0, SPEED_OPTIONS.indexOf(speed)) + (e.key === "]" ? 1 : -1);
+          setSpeed(SPEED_OPTIONS[Math.min(SPEED_OPTIONS.length - 1, Math.max(0, i))]);
+          break;
+        }
+        default:
+          return;
+      }
+      e.preventDefault(); // no page scroll, no click on a focused button
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [
+    togglePlay,
+    stepSample,
+    stepBy,
+    setTime,
+    setLoop,
+    loop,
+    durationSec,
+    setReverse,
+    reverse,
+    setSmartSpeed,
+    smartSpeed,
+    setSpeed,
+    speed,
+  ]);
+
+  const buttons: { label: string; icon: React.ReactNode; onClick: () => void; pressed?: boolean }[] = [
+    { label: "Jump to start (Home)", icon: <SkipBack className="h-4 w-4" />, onClick: () => setTime(0) },
+    { label: `Back ${JUMP_SEC} s (Shift+←)`, icon: <Rewind className="h-4 w-4" />, onClick: () => stepBy(-JUMP_SEC) },
+    { label: "Previous sample (←)", icon: <StepBack className="h-4 w-4" />, onClick: () => stepSample(-1) },
+    {
+      label: isPlaying ? "Pause (Space)" : "Play (Space)",
+      icon: isPlaying ? <Pause className="h-5 w-5" /> : <Play className={`h-5 w-5 ${reverse ? "rotate-180" : ""}`} />,
+      onClick: togglePlay,
+    },
+    { label: "Next sample (→)", icon: <StepForward className="h-4 w-4" />, onClick: () => stepSample(1) },
+    { label: `Forward ${JUMP_SEC} s (Shift+→)`, icon: <FastForward className="h-4 w-4" />, onClick: () => stepBy(JUMP_SEC) },
+    { label: "Jump to end (End)", icon: <SkipForward className="h-4 w-4" />, onClick: () => setTime(durationSec) },
+    { label: "Loop (L)", icon: <Repeat className="h-4 w-4" />, onClick: () => setLoop(!loop), pressed: loop },
+    { label: "Reverse (R)", icon: <ArrowLeftRight className="h-4 w-4" />, onClick: () => setReverse(!reverse), pressed: reverse },
+    {
+      label: `Smart speed (S): ${SMART_QUIET_SPEED}× through stillness, 1× around entries, exits and bench changes`,
+      icon: <Gauge className="h-4 w-4" />,
+      onClick: () => setSmartSpeed(!smartSpeed),
+      pressed: smartSpeed,
+    },
+  ];
+
+  return (
+    <div className="flex items-center justify-center gap-1" role="toolbar" aria-label="Playback">
+      {buttons.map(({ label, icon, onClick, pressed }) => (
+        <button
+          key={label}
+          onClick={onClick}
+          title={label}
+          aria-label={label}
+          aria-pressed={pressed}
+          className="rounded p-1.5 hover:opacity-70 transition-opacity"
+          style={{ color: '#CFBD94', opacity: pressed === false ? 0.5 : 1 }}
+        >
+          {icon}
+        </button>
+      ))}
+      <Select value={String(speed)} onValueChange={(v) => setSpeed(Number(v))}>
+        <SelectTrigger className="h-8 w-20 font-mori text-xs" style={{ color: '#CFBD94' }} aria-label="Speed ([ / ])">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SPEED_OPTIONS.map((s) => (
+            <SelectItem key={s} value={String(s)}>
+              {speedLabel(s)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {smartSpeed && (
+        <span className="w-10 font-mori text-xs" style={{ color: '#CFBD94' }} title="Current smart speed">
+          {speedLabel(effectiveSpeed)}
+        </span>
+      )}
+    </div>
+  );
+};
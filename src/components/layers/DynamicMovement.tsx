@@ -1,6 +1,9 @@
 import * as React from "react";
 import { CircularGrid, polarToCartesian } from "../CircularGrid";
 import { motion } from "framer-motion";
+import { fetchDataFile } from "@/lib/dataSchemas";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { interpolateTrack, modeForPerson } from "@/lib/interpolation";
 
 interface TimelinePoint {
   t: number; // time in seconds
@@ -27,42 +30,23 @@ export const DynamicMovement: React.FC<DynamicMovementProps> = ({
   currentTime 
 }) => {
   const [data, setData] = React.useState<TimelinePerson[]>([]);
+  const reportDataError = usePeoplePlaybackStore((state) => state.reportDataError);
+  const interpolation = usePeoplePlaybackStore((state) => state.interpolation);
   
   const center = size / 2;
   const maxRadius = size / 2 - 20;
 
   React.useEffect(() => {
-    fetch("/data/timeline.json")
-      .then((res) => res.json())
-      .then((json: TimelinePerson[]) => setData(json))
-      .catch((err) => console.error("Failed to load timeline:", err));
-  }, []);
-
-  // Interpolate position for a person at currentTime
-  const interpolatePosition = (track: TimelinePoint[], t: number) => {
-    if (track.length === 0) return null;
-    
-    // Find surrounding points
-    let before = track[0];
-    let after = track[track.length - 1];
-    
-    for (let i = 0; i < track.length - 1; i++) {
-      if (track[i].t <= t && track[i + 1].t >= t) {
-        before = track[i];
-        after = track[i + 1];
-        break;
-      }
-    }
-    
-    if (before === after) return before;
-    
-    // Linear interpolation
-    const ratio = (t - before.t) / (after.t - before.t);
-    return {
-      angleDeg: before.angleDeg + (after.angleDeg - before.angleDeg) * ratio,
-      radiusFactor: before.radiusFactor + (after.radiusFactor - before.radiusFactor) * ratio,
-      action: before.action,
-    };
+    fetchDataFile("timeline", "/data/timeline.json").then((result) => {
+      if (result.error) reportDataError(result.error);
+      else setData(result.data);
+    });
+  }, [reportDataError]);
+
+  // Interpolate position for a person at currentTime (session interpolation mode)
+  const interpolatePosition = (personId: string, track: TimelinePoint[], t: number) => {
+    const pos = interpolateTrack(track, t, modeForPerson(interpolation, personId), interpolation.holdWithinSec);
+    return pos && { angleDeg: pos.angleDeg, radiusFactor: pos.radiusFactor, action: pos.key.action };
   };
 
   // Get all points up to currentTime for breadcrumbs
@@ -76,7 +60,7 @@ export const DynamicMovement: React.FC<DynamicMovementProps> = ({
       <svg width={size} height={size} className="absolute inset-0">
         {data.map((person) => {
           const breadcrumbs = getBreadcrumbs(person.track, currentTime);
-          const currentPos = interpolatePosition(person.track, currentTime);
+          const currentPos = interpolatePosition(person.id, person.track, currentTime);
           
           if (!currentPos) return null;
 
@@ -2,6 +2,8 @@ import * as React from "react";
 import { useNavigate } from "react-router-dom";
 import { CircularGrid, polarToCartesian } from "../CircularGrid";
 import { motion } from "framer-motion";
+import { fetchDataFile } from "@/lib/dataSchemas";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
 
 interface ColorData {
   id: string;
@@ -18,6 +20,7 @@ interface StaticColorsProps {
  */
 export const StaticColors: React.FC<StaticColorsProps> = ({ size = 520 }) => {
   const [data, setData] = React.useState<ColorData[]>([]);
+  const reportDataError = usePeoplePlaybackStore((state) => state.reportDataError);
   const [hoveredId, setHoveredId] = React.useState<string | null>(null);
   const navigate = useNavigate();
   
@@ -26,11 +29,11 @@ export const StaticColors: React.FC<StaticColorsProps> = ({ size = 520 }) => {
 
   React.useEffect(() => {
     // Load data from JSON file
-    fetch("/data/colors.json")
-      .then((res) => res.json())
-      .then((json) => setData(json))
-      .catch((err) => console.error("Failed to load colors data:", err));
-  }, []);
+    fetchDataFile("colors", "/data/colors.json").then((result) => {
+      if (result.error) reportDataError(result.error);
+      else setData(result.data);
+    });
+  }, [reportDataError]);
 
   const handleClick = (id: string) => {
     navigate(`/person/${id}`);
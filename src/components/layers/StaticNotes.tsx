@@ -2,6 +2,8 @@ import * as React from "react";
 import { useNavigate } from "react-router-dom";
 import { CircularGrid, polarToCartesian } from "../CircularGrid";
 import { motion } from "framer-motion";
+import { fetchDataFile } from "@/lib/dataSchemas";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
 
 interface NoteData {
   id: string;
@@ -18,6 +20,7 @@ interface StaticNotesProps {
  */
 export const StaticNotes: React.FC<StaticNotesProps> = ({ size = 520 }) => {
   const [data, setData] = React.useState<NoteData[]>([]);
+  const reportDataError = usePeoplePlaybackStore((state) => state.reportDataError);
   const [hoveredId, setHoveredId] = React.useState<string | null>(null);
   const navigate = useNavigate();
   
@@ -25,11 +28,11 @@ export const StaticNotes: React.FC<StaticNotesProps> = ({ size = 520 }) => {
   const radius = size / 2 - 40;
 
   React.useEffect(() => {
-    fetch("/data/notes.json")
-      .then((res) => res.json())
-      .then((json) => setData(json))
-      .catch((err) => console.error("Failed to load notes data:", err));
-  }, []);
+    fetchDataFile("notes", "/data/notes.json").then((result) => {
+      if (result.error) reportDataError(result.error);
+      else setData(result.data);
+    });
+  }, [reportDataError]);
 
   const handleClick = (id: string) => {
     navigate(`/person/${id}`);
@@ -2,6 +2,8 @@ import * as React from "react";
 import { useNavigate } from "react-router-dom";
 import { CircularGrid, polarToCartesian } from "../CircularGrid";
 import { motion } from "framer-motion";
+import { fetchDataFile } from "@/lib/dataSchemas";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
 
 interface PostureData {
   id: string;
@@ -101,6 +103,7 @@ const PostureGlyph: React.FC<{
  */
 export const StaticPostures: React.FC<StaticPosturesProps> = ({ size = 520 }) => {
   const [data, setData] = React.useState<PostureData[]>([]);
+  const reportDataError = usePeoplePlaybackStore((state) => state.reportDataError);
   const [hoveredId, setHoveredId] = React.useState<string | null>(null);
   const navigate = useNavigate();
   
@@ -108,11 +111,11 @@ export const StaticPostures: React.FC<StaticPosturesProps> = ({ size = 520 }) =>
   const radius = size / 2 - 40;
 
   React.useEffect(() => {
-    fetch("/data/postures.json")
-      .then((res) => res.json())
-      .then((json) => setData(json))
-      .catch((err) => console.error("Failed to load postures data:", err));
-  }, []);
+    fetchDataFile("postures", "/data/postures.json").then((result) => {
+      if (result.error) reportDataError(result.error);
+      else setData(result.data);
+    });
+  }, [reportDataError]);
 
   const handleClick = (id: string) => {
     navigate(`/person/${id}`);
@@ -3,7 +3,9 @@ import { CircularGrid } from "../CircularGrid";
 import { polarToCartesian } from "@/lib/roomGeometry";
 import { motion } from "framer-motion";
 import { useNavigate } from "react-router-dom";
-import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { usePeoplePlaybackStore, type PersonState } from "@/lib/usePeoplePlaybackStore";
+import { doorwayAngleFor } from "@/lib/doorways";
+import { shortestAngleDist } from "@/lib/interpolation";
 
 interface UnifiedColorsProps {
   size?: number;
@@ -11,18 +13,37 @@ interface UnifiedColorsProps {
 
 type LifecycleState = 'entering' | 'active' | 'exiting' | 'gone';
 
+interface Tween {
+  fromR: number;
+  toR: number;
+  fromAngle: number;
+  toAngle: number;
+  t: number;
+  dur: number;
+  opacity: number;
+}
+
 interface PersonAnimation {
   life: LifecycleState;
-  enterTween?: { fromR: number; toR: number; t: number; dur: number; opacity: number };
-  exitTween?: { fromR: number; toR: number; t: number; dur: number; opacity: number };
+  enterTween?: Tween;
+  exitTween?: Tween;
+  person?: PersonState; // last seen state, drawn while walking out
 }
 
+// Helper: tweened radius and angle at eased progress e (angles take the short way round)
+const tweenAt = (tween: Tween, e: number) => ({
+  r: tween.fromR + (tween.toR - tween.fromR) * e,
+  angleDeg: tween.fromAngle + shortestAngleDist(tween.fromAngle, tween.toAngle) * e,
+});
+
 /**
  * Layer 1: Colors - Shows all 13 people with their color attribute
  */
 export const UnifiedColors: React.FC<UnifiedColorsProps> = ({ size = 520 }) => {
   const navigate = useNavigate();
   const peopleAtTime = usePeoplePlaybackStore((state) => state.peopleAtTime);
+  const sessionKey = usePeoplePlaybackStore((state) => state.sessionKey);
+  const roomGeometry = usePeoplePlaybackStore((state) => state.roomGeometry);
   
   const [hoveredId, setHoveredId] = React.useState<string | null>(null);
   const [animations, setAnimations] = React.useState<Map<string, PersonAnimation>>(new Map());
@@ -54,7 +75,12 @@ export const UnifiedColors: React.FC<UnifiedColorsProps> = ({ size = 520 }) => {
     }
   }, []);
 
-  // Animate enter/exit
+  // New session: restart enter/exit lifecycles
+  React.useEffect(() => {
+    setAnimations(new Map());
+  }, [sessionKey]);
+
+  // Animate enter/exit through doorways
   React.useEffect(() => {
     const animate = (now: number) => {
       const dtSec = (now - lastFrameTimeRef.current) / 1000;
@@ -63,65 +89,81 @@ export const UnifiedColors: React.FC<UnifiedColorsProps> = ({ size = 520 }) => {
       if (dtSec > 0 && dtSec < 0.1) {
         setAnimations((prev) => {
           const next = new Map(prev);
+          const present = new Set<string>();
+          
+          peopleAtTime
+            .filter((person) => person.isVisible)
+            .forEach((person) => {
+              present.add(person.id);
+              
+              // Back in the room after leaving: enter again
+              const prevAnim = next.get(person.id);
+              const anim: PersonAnimation =
+                prevAnim && prevAnim.life !== 'exiting' && prevAnim.life !== 'gone' ? prevAnim : { life: 'entering' };
+              anim.person = person;
+              
+              if (anim.life === 'entering') {
+                // Start enter: through the doorway the person came in by, else from the rim behind them
+                if (!anim.enterTween) {
+                  anim.enterTween = {
+                    fromR: person.enteredVia
+                      ? roomGeometry.exitRadiusFactor + 0.06
+                      : Math.max(1.06, person.currentRadiusFactor + 0.12),
+                    toR: person.currentRadiusFactor,
+                    fromAngle: doorwayAngleFor(person.enteredVia, person.currentAngleDeg, roomGeometry),
+                    toAngle: person.currentAngleDeg,
+                    t: 0,
+                    dur: 0.35,
+                    opacity: 0
+                  };
+                }
+                
+                // Advance enter tween
+                anim.enterTween.t = Math.min(anim.enterTween.t + dtSec, anim.enterTween.dur);
+                anim.enterTween.toR = person.currentRadiusFactor; // track target
+                anim.enterTween.toAngle = person.currentAngleDeg;
+                const k = anim.enterTween.t / anim.enterTween.dur;
+                const e = 1 - Math.pow(1 - k, 3); // easeOutCubic
+                anim.enterTween.opacity = e;
+                
+                if (anim.enterTween.t >= anim.enterTween.dur) {
+                  anim.life = 'active';
+                  anim.enterTween = undefined;
+                }
+              }
+              
+              next.set(person.id, anim);
+            });
           
-          peopleAtTime.forEach((person) => {
-            const anim = next.get(person.id) || { life: 'entering' };
-            const isExiting = person.currentRadiusFactor > 1.0;
+          // People who left: walk out through their doorway, then remove
+          Array.from(next.entries()).forEach(([id, anim]) => {
+            if (present.has(id)) return;
+            const person = anim.person;
             
-            if (isExiting && anim.life !== 'exiting' && anim.life !== 'gone') {
-              // Start exit
+            if (anim.life !== 'exiting') {
+              if (!person?.exitedVia) {
+                next.delete(id);
+                return;
+              }
               anim.life = 'exiting';
+              anim.enterTween = undefined;
               anim.exitTween = {
                 fromR: person.currentRadiusFactor,
-                toR: 1.06,
+                toR: Math.max(person.currentRadiusFactor, roomGeometry.exitRadiusFactor) + 0.06,
+                fromAngle: person.currentAngleDeg,
+                toAngle: doorwayAngleFor(person.exitedVia, person.currentAngleDeg, roomGeometry),
                 t: 0,
                 dur: 0.6,
                 opacity: 1
               };
-              anim.enterTween = undefined;
-            } else if (!isExiting && anim.life === 'entering') {
-              // Continue or start enter
-              if (!anim.enterTween) {
-                const enterStartR = Math.max(1.06, person.currentRadiusFactor + 0.12);
-                anim.enterTween = {
-                  fromR: enterStartR,
-                  toR: person.currentRadiusFactor,
-                  t: 0,
-                  dur: 0.35,
-                  opacity: 0
-                };
-              }
-              
-              // Advance enter tween
-              anim.enterTween.t = Math.min(anim.enterTween.t + dtSec, anim.enterTween.dur);
-              anim.enterTween.toR = person.currentRadiusFactor; // track target
-              const k = anim.enterTween.t / anim.enterTween.dur;
-              const e = 1 - Math.pow(1 - k, 3); // easeOutCubic
-              anim.enterTween.opacity = e;
-              
-              if (anim.enterTween.t >= anim.enterTween.dur) {
-                anim.life = 'active';
-                anim.enterTween = undefined;
-              }
-            } else if (anim.life === 'exiting' && anim.exitTween) {
-              // Advance exit tween
-              anim.exitTween.t = Math.min(anim.exitTween.t + dtSec, anim.exitTween.dur);
-              const k = anim.exitTween.t / anim.exitTween.dur;
-              const e = Math.pow(k, 3); // easeInCubic
-              anim.exitTween.opacity = 1 - k;
-              
-              if (anim.exitTween.t >= anim.exitTween.dur) {
-                anim.life = 'gone';
-              }
             }
             
-            next.set(person.id, anim);
-          });
-          
-          // Remove gone people
-          Array.from(next.keys()).forEach(id => {
-            const anim = next.get(id);
-            if (anim?.life === 'gone') {
+            // Advance exit tween
+            anim.exitTween.t = Math.min(anim.exitTween.t + dtSec, anim.exitTween.dur);
+            const k = anim.exitTween.t / anim.exitTween.dur;
+            anim.exitTween.opacity = 1 - k;
+            
+            if (anim.exitTween.t >= anim.exitTween.dur) {
               next.delete(id);
             }
           });
@@ -140,31 +182,37 @@ export const UnifiedColors: React.FC<UnifiedColorsProps> = ({ size = 520 }) => {
         cancelAnimationFrame(rafRef.current);
       }
     };
-  }, [peopleAtTime]);
+  }, [peopleAtTime, roomGeometry]);
+
+  // People in the room, plus those still walking out through a doorway
+  const presentPeople = peopleAtTime.filter((person) => person.isVisible);
+  const leavingPeople = Array.from(animations.values())
+    .filter((anim) => anim.life === 'exiting' && anim.person && !presentPeople.some((p) => p.id === anim.person!.id))
+    .map((anim) => anim.person!);
 
   return (
     <div className="relative" style={{ width: size, height: size }}>
       <CircularGrid size={size} />
       <svg width={size} height={size} className="absolute inset-0">
         <g>
-          {peopleAtTime
-            .filter((person) => person.isVisible)
+          {[...presentPeople, ...leavingPeople]
             .map((person) => {
               const anim = animations.get(person.id);
               if (anim?.life === 'gone') return null;
               
               let renderR = person.currentRadiusFactor;
+              let renderAngle = person.currentAngleDeg;
               let opacity = 1;
               
               if (anim?.enterTween) {
                 const k = anim.enterTween.t / anim.enterTween.dur;
                 const e = 1 - Math.pow(1 - k, 3); // easeOutCubic
-                renderR = anim.enterTween.fromR + (anim.enterTween.toR - anim.enterTween.fromR) * e;
+                ({ r: renderR, angleDeg: renderAngle } = tweenAt(anim.enterTween, e));
                 opacity = anim.enterTween.opacity;
               } else if (anim?.exitTween) {
                 const k = anim.exitTween.t / anim.exitTween.dur;
                 const e = Math.pow(k, 3); // easeInCubic
-                renderR = anim.exitTween.fromR + (anim.exitTween.toR - anim.exitTween.fromR) * e;
+                ({ r: renderR, angleDeg: renderAngle } = tweenAt(anim.exitTween, e));
                 opacity = anim.exitTween.opacity;
               }
               
@@ -172,7 +220,7 @@ export const UnifiedColors: React.FC<UnifiedColorsProps> = ({ size = 520 }) => {
                 center,
                 center,
                 maxRadius * renderR,
-                person.currentAngleDeg
+                renderAngle
               );
               const isHovered = hoveredId === person.id;
               const imageUrl = avatarSrcFor(person.id);
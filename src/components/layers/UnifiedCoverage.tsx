@@ -2,9 +2,11 @@ import * as React from "react";
 import { CircularGrid } from "../CircularGrid";
 import { polarToCartesian } from "@/lib/roomGeometry";
 import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { obstaclePath } from "@/lib/obstacles";
 
 interface UnifiedCoverageProps {
   size?: number;
+  maskObstacles?: boolean; // keep footprints off obstacles
 }
 
 type LifecycleState = 'entering' | 'active' | 'exiting' | 'gone';
@@ -18,9 +20,11 @@ interface PersonAnimation {
 /**
  * Layer 5: Coverage - Shows accumulated footprint of where dots have been
  */
-export const UnifiedCoverage: React.FC<UnifiedCoverageProps> = ({ size = 520 }) => {
+export const UnifiedCoverage: React.FC<UnifiedCoverageProps> = ({ size = 520, maskObstacles = true }) => {
   const peopleAtTime = usePeoplePlaybackStore((state) => state.peopleAtTime);
+  const sessionKey = usePeoplePlaybackStore((state) => state.sessionKey);
   const timeSec = usePeoplePlaybackStore((state) => state.timeSec);
+  const roomGeometry = usePeoplePlaybackStore((state) => state.roomGeometry);
   
   const canvasRef = React.useRef<HTMLCanvasElement>(null);
   const lastTimeRef = React.useRef<number>(0);
@@ -40,6 +44,14 @@ export const UnifiedCoverage: React.FC<UnifiedCoverageProps> = ({ size = 520 })
     return `rgba(${r}, ${g}, ${b}, ${alpha})`;
   };
 
+  // New session: restart enter/exit lifecycles
+  React.useEffect(() => {
+    setAnimations(new Map());
+    const ctx = canvasRef.current?.getContext("2d");
+    ctx?.clearRect(0, 0, size, size);
+    lastPositionsRef.current.clear();
+  }, [sessionKey, size]);
+
   // Animate enter/exit
   React.useEffect(() => {
     const animate = (now: number) => {
@@ -51,8 +63,14 @@ export const UnifiedCoverage: React.FC<UnifiedCoverageProps> = ({ size = 520 })
           const next = new Map(prev);
           
           peopleAtTime.forEach((person) => {
-            const anim = next.get(person.id) || { life: 'entering' };
-            const isExiting = person.currentRadiusFactor > 1.0;
+            const isExiting = person.exitedVia !== undefined; // walking out through a doorway
+            
+            // Back in the room after leaving: enter again
+            const prevAnim = next.get(person.id);
+            const anim: PersonAnimation =
+              prevAnim && (isExiting || (prevAnim.life !== 'exiting' && prevAnim.life !== 'gone'))
+                ? prevAnim
+                : { life: 'entering' };
             
             if (isExiting && anim.life !== 'exiting' && anim.life !== 'gone') {
               // Start exit - stop stamping
@@ -102,10 +120,9 @@ export const UnifiedCoverage: React.FC<UnifiedCoverageProps> = ({ size = 520 })
             next.set(person.id, anim);
           });
           
-          // Remove gone people
+          // Remove people who have left the room
           Array.from(next.keys()).forEach(id => {
-            const anim = next.get(id);
-            if (anim?.life === 'gone') {
+            if (!peopleAtTime.some((person) => person.id === id && person.isVisible)) {
               next.delete(id);
             }
           });
@@ -183,7 +200,15 @@ export const UnifiedCoverage: React.FC<UnifiedCoverageProps> = ({ size = 520 })
         // Update last position
         lastPositionsRef.current.set(person.id, { x: coord.x, y: coord.y });
       });
-  }, [peopleAtTime, center, maxRadius, animations]);
+
+    // Erase footprints that spill onto obstacles
+    if (maskObstacles && roomGeometry.obstacles.length > 0) {
+      ctx.save();
+      ctx.globalCompositeOperation = "destination-out";
+      roomGeometry.obstacles.forEach((obstacle) => ctx.fill(new Path2D(obstaclePath(obstacle, center, maxRadius))));
+      ctx.restore();
+    }
+  }, [peopleAtTime, center, maxRadius, animations, maskObstacles, roomGeometry]);
 
   return (
     <div className="relative" style={{ width: size, height: size }}>
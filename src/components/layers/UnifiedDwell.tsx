@@ -2,6 +2,7 @@ import * as React from "react";
 import { CircularGrid } from "../CircularGrid";
 import { polarToCartesian } from "@/lib/roomGeometry";
 import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { motionChangeAt, type MotionTimeline } from "@/lib/motionStates";
 
 // ====== CONSTANTS (SPEC-LOCKED) ======
 
@@ -22,51 +23,23 @@ function getDwell(id: string): DwellState {
   return s;
 }
 
-// ====== MOTION SCHEDULE (JSON-BASED) ======
-type MotionInterval = { 
-  interval: string; 
-  tA: number; 
-  tB: number; 
-  STILL: string[]; 
-  MOVING: string[] 
-};
-type MotionSchedule = { motionSchedule: MotionInterval[] };
-
-let motionSchedule: MotionInterval[] | null = null;
+// ====== MOTION TIMELINE (FROM STORE) ======
+let motionTimeline: MotionTimeline | null = null;
 const canonicalId = (id: string) => String(id).trim().toUpperCase();
 
-/**
- * getInterval: Find current interval for timeSec using [tA, tB) logic.
- */
-function getInterval(timeSec: number): MotionInterval | null {
-  if (!motionSchedule || motionSchedule.length === 0) return null;
-  for (const iv of motionSchedule) {
-    if (timeSec >= iv.tA && timeSec < iv.tB) return iv;
-  }
-  // Clamp to last interval if beyond
-  return motionSchedule[motionSchedule.length - 1];
-}
-
-/**
- * isStill: Check if personId is in STILL list for current interval.
- * personId is already canonical, schedule lists are canonical after load.
- */
-function isStill(personId: string, interval: MotionInterval | null): boolean {
-  if (!interval) return false;
-  return interval.STILL.includes(personId); // Simple lookup, both sides canonical
-}
-
 /**
  * updateDwell: ONLY place that changes ring size.
  * Called every rAF with timeSec and dtSec.
+ * personId is already canonical, timeline ids are canonical after load.
  */
 function updateDwell(personId: string, timeSec: number, dtSec: number) {
-  const iv = getInterval(timeSec);
-  if (!iv) return;
+  if (!motionTimeline) return;
 
-  const key = `${iv.tA}-${iv.tB}`;
+  // The person's current STILL/MOVING window starts at their latest change
+  const change = motionChangeAt(motionTimeline, personId, timeSec);
+  const key = change ? String(change.tSec) : "";
   const s = getDwell(personId);
-  const still = isStill(personId, iv);
+  const still = change?.state === "STILL";
 
   // Reset ONLY when entering a MOVING window
   if (s.lastKey !== key) {
@@ -108,16 +81,16 @@ function rafTick() {
 
   const { timeSec, peopleAtTime } = usePeoplePlaybackStore.getState();
 
-  // Don't run until schedule is ready
-  if (!motionSchedule) {
+  // Don't run until the timeline is ready
+  if (!motionTimeline) {
     rafId = requestAnimationFrame(rafTick);
     return;
   }
 
   // ✅ Correct: iterate the array, keep only visible, pass CANONICAL ids
-  const ids = (Array.isArray(peopleAtTime) ? peopleAtTime : Object.values(peopleAtTime))
-    .filter((p: any) => p?.isVisible !== false)
-    .map((p: any) => canonicalId(p.id));
+  const ids = peopleAtTime
+    .filter((p) => p.isVisible !== false)
+    .map((p) => canonicalId(p.id));
 
   ids.forEach(id => updateDwell(id, timeSec, dtSec));
 
@@ -144,30 +117,33 @@ interface UnifiedDwellProps {
 }
 
 /**
- * Layer 2: Dwell Time - JSON motion schedule driven with direct DOM updates.
+ * Layer 2: Dwell Time - Motion timeline driven (derived from the CSV motion column
+ * unless a motion_schedule.json was imported) with direct DOM updates.
  * Shows growing rings around stationary people (STILL state).
  */
 export const UnifiedDwell: React.FC<UnifiedDwellProps> = ({ size = 520 }) => {
   const peopleAtTime = usePeoplePlaybackStore((state) => state.peopleAtTime);
   const timeSec = usePeoplePlaybackStore((state) => state.timeSec);
+  const timeline = usePeoplePlaybackStore((state) => state.motionTimeline);
+  const sessionKey = usePeoplePlaybackStore((state) => state.sessionKey);
 
   const center = size / 2;
   const maxRadius = size / 2 - 20;
 
-  // Load motion schedule from JSON (once)
+  // Mirror the session's motion timeline (canonicalize person IDs once)
   React.useEffect(() => {
-    fetch('/data/motion_schedule.json')
-      .then(res => res.json())
-      .then((data: MotionSchedule) => {
-        // Canonicalize IDs inside STILL/MOVING lists once
-        motionSchedule = data.motionSchedule.map(iv => ({
-          ...iv,
-          STILL: iv.STILL.map(canonicalId),
-          MOVING: iv.MOVING.map(canonicalId),
-        }));
-      })
-      .catch(err => console.error('Failed to load motion schedule:', err));
-  }, []);
+    motionTimeline = timeline
+      ? {
+          ...timeline,
+          changes: Object.fromEntries(Object.entries(timeline.changes).map(([id, changes]) => [canonicalId(id), changes])),
+        }
+      : null;
+  }, [timeline]);
+
+  // New session: drop accumulated ring sizes
+  React.useEffect(() => {
+    dwell.clear();
+  }, [sessionKey]);
 
   // Start/stop dedicated rAF loop
   React.useEffect(() => {
@@ -178,7 +154,7 @@ export const UnifiedDwell: React.FC<UnifiedDwellProps> = ({ size = 520 }) => {
   // Runtime cleanup of any stray debug elements
   React.useEffect(() => {
     document.querySelectorAll('#dwell-probe, .dwell-probe').forEach(n => n.remove());
-    (window as any).DEBUG_DWELL = false;
+    (window as Window & { DEBUG_DWELL?: boolean }).DEBUG_DWELL = false;
   }, []);
 
   return (
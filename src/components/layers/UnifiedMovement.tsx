@@ -1,5 +1,5 @@
 import * as React from "react";
-import { CircularGrid } from "../CircularGrid";
+import { CircularGrid, ObstacleMask } from "../CircularGrid";
 import { polarToCartesian } from "@/lib/roomGeometry";
 import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
 
@@ -77,6 +77,11 @@ function appendTrailPoint(personId: string, x: number, y: number, groupId: strin
   el.setAttribute('stroke', COLOR[id] || '#000'); // ensure color stays in sync
 }
 
+function resetTrails() {
+  trails.forEach((_, id) => document.getElementById(`path-trail-${id}`)?.remove());
+  trails.clear();
+}
+
 // ====== RAF LOOP (UPDATES TRAILS) ======
 let rafId: number | null = null;
 
@@ -115,18 +120,25 @@ function stopPathLoop() {
 // ====== REACT COMPONENT ======
 interface UnifiedMovementProps {
   size?: number;
+  maskObstacles?: boolean; // hide trails drawn over obstacles
 }
 
 /**
  * Layer 4: Movement Paths - Paintbrush trails that accumulate as people move
  */
-export const UnifiedMovement: React.FC<UnifiedMovementProps> = ({ size = 520 }) => {
+export const UnifiedMovement: React.FC<UnifiedMovementProps> = ({ size = 520, maskObstacles = true }) => {
   const peopleAtTime = usePeoplePlaybackStore((state) => state.peopleAtTime);
+  const sessionKey = usePeoplePlaybackStore((state) => state.sessionKey);
   const center = size / 2;
   const maxRadius = size / 2 - 20;
 
   const groupId = 'path-layer-group';
 
+  // New session: erase accumulated trails
+  React.useEffect(() => {
+    resetTrails();
+  }, [sessionKey]);
+
   // Start/stop trail update loop
   React.useEffect(() => {
     startPathLoop(groupId);
@@ -137,7 +149,12 @@ export const UnifiedMovement: React.FC<UnifiedMovementProps> = ({ size = 520 })
     <div className="relative" style={{ width: size, height: size }}>
       <CircularGrid size={size} />
       <svg width={size} height={size} className="absolute inset-0">
-        <g id={groupId}>
+        {maskObstacles && (
+          <defs>
+            <ObstacleMask id={`${groupId}-obstacles`} size={size} />
+          </defs>
+        )}
+        <g id={groupId} mask={maskObstacles ? `url(#${groupId}-obstacles)` : undefined}>
           {/* Trails are appended dynamically via DOM manipulation */}
           {/* Moving dots rendered by React */}
           {peopleAtTime
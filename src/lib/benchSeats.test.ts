@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { assignSeats, occupancyAt, seatAngle } from './benchSeats';
+import { ROOM } from './roomGeometry';
+
+const t2 = ROOM.benches.find((b) => b.id === 'T2')!;
+
+describe('assignSeats', () => {
+  it('gives each sitter the free seat nearest to them and keeps it while they stay', () => {
+    const csvPositions = {
+      P1: [
+        { tSec: 0, angleDeg: 80, radiusFactor: 0.92, bench: 'T2' },
+        { tSec: 10, angleDeg: 100, radiusFactor: 0.92, bench: 'T2' },
+        { tSec: 20, angleDeg: 0, radiusFactor: 0.5 },
+      ],
+      P2: [{ tSec: 10, angleDeg: 80, radiusFactor: 0.92, bench: 'T2' }],
+    };
+    const { csvPositions: seated, occupancy } = assignSeats(csvPositions, ROOM);
+
+    expect(seated.P1.map((s) => s.seat)).toEqual([0, 0, undefined]);
+    expect(seated.P1[1]).toMatchObject({ angleDeg: seatAngle(t2, 0), recordedAngleDeg: 100 });
+    expect(seated.P2[0]).toMatchObject({ seat: 1, angleDeg: seatAngle(t2, 1) });
+    expect(occupancy.T2).toEqual([
+      { tSec: 0, occupied: 1 },
+      { tSec: 10, occupied: 2 },
+      { tSec: 20, occupied: 1 },
+    ]);
+    expect(occupancyAt(occupancy.T2, 15)).toBe(2);
+    expect(occupancyAt(occupancy.T2, -1)).toBe(0);
+    expect(occupancy.T1).toEqual([]);
+    // The input is left as recorded
+    expect(csvPositions.P1[1]).toEqual({ tSec: 10, angleDeg: 100, radiusFactor: 0.92, bench: 'T2' });
+  });
+
+  it('only clamps sitters onto a full bench', () => {
+    const csvPositions = Object.fromEntries(
+      Array.from({ length: 5 }, (_, i) => [`P${i}`, [{ tSec: i, angleDeg: 60, radiusFactor: 0.92, bench: 'T2' }]])
+    );
+    const { csvPositions: seated, occupancy } = assignSeats(csvPositions, ROOM);
+    expect(seated.P4[0]).toMatchObject({ seat: undefined, angleDeg: 72 });
+    expect(occupancyAt(occupancy.T2, 10)).toBe(4);
+  });
+
+  it('can be re-run on its own output', () => {
+    const csvPositions = { P1: [{ tSec: 0, angleDeg: 107, radiusFactor: 0.92, bench: 'T2' }] };
+    const once = assignSeats(csvPositions, ROOM);
+    expect(assignSeats(once.csvPositions, ROOM)).toEqual(once);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Bench seats - seat slots on bench arcs and how full each bench is
+ *
+ * Each bench is split into `seats` equal slots along its arc. Going through
+ * the samples in time order, a seated sample (bench is one of the room's
+ * benches) takes the free seat nearest to its recorded angle and keeps it for
+ * as long as the person stays on that bench; the seat is freed once their
+ * next sample is elsewhere. When a bench is full the sample is only clamped
+ * onto the arc. Occupancy is recorded per bench as a step series of occupied
+ * seats.
+ */
+
+import { arcSpanDeg, clampAngleToBench, type BenchDef, type RoomGeometry } from './roomGeometry';
+import { lastIndexAtOrBefore, normalizeAngle, shortestAngleDist } from './interpolation';
+import type { CSVSample } from './usePeoplePlaybackStore';
+
+export interface OccupancyPoint {
+  tSec: number;
+  occupied: number; // seats taken from tSec until the next point
+}
+
+export type BenchOccupancy = Record<string, OccupancyPoint[]>;
+
+export interface SeatAssignment {
+  csvPositions: Record<string, CSVSample[]>; // seated samples moved onto their seat
+  occupancy: BenchOccupancy;
+}
+
+/**
+ * Angle of the centre of a seat (0-based) on a bench
+ */
+export const seatAngle = (bench: BenchDef, seat: number): number =>
+  normalizeAngle(bench.startDeg + (arcSpanDeg(bench.startDeg, bench.endDeg) * (seat + 0.5)) / bench.seats);
+
+/**
+ * Occupied seats on a bench at time t (0 before the first sample)
+ */
+export const occupancyAt = (series: OccupancyPoint[] | undefined, t: number): number => {
+  if (!series) return 0;
+  const i = lastIndexAtOrBefore(series, t, (p) => p.tSec);
+  return i < 0 ? 0 : series[i].occupied;
+};
+
+// Helper: fresh copy of a sample as recorded (field by field: much cheaper than spreading on large sessions)
+const copySample = (s: CSVSample): CSVSample => ({
+  tSec: s.tSec,
+  time: s.time,
+  angleDeg: s.recordedAngleDeg ?? s.angleDeg,
+  radiusFactor: s.radiusFactor,
+  bench: s.bench,
+  notes: s.notes,
+  motion: s.motion,
+  line: s.line,
+  seat: undefined,
+  recordedAngleDeg: undefined,
+});
+
+/**
+ * Snap seated samples to seats and build each bench's occupancy series
+ * Reads recordedAngleDeg when present, so it can be re-run for a new layout.
+ */
+export const assignSeats = (csvPositions: Record<string, CSVSample[]>, room: RoomGeometry): SeatAssignment => {
+  const benches = new Map(room.benches.map((b) => [b.id, b]));
+  const occupants = new Map(room.benches.map((b) => [b.id, new Array<string | null>(b.seats).fill(null)]));
+  const seatOf = new Map<string, { bench: string; seat: number }>();
+  const occupancy: BenchOccupancy = Object.fromEntries(room.benches.map((b) => [b.id, []]));
+  const occupied = new Map(room.benches.map((b) => [b.id, 0]));
+  const changed = new Set<string>(); // benches whose count changed at the current time
+
+  // Copies of every sample, visited in time order (file order within a time); bucketing by time
+  // keeps the sort to the distinct times and each time's rows
+  const positions: Record<string, CSVSample[]> = {};
+  const eventPerson: string[] = [];
+  const eventSample: CSVSample[] = [];
+  const byTime = new Map<number, number[]>();
+  for (const [personId, samples] of Object.entries(csvPositions)) {
+    positions[personId] = samples.map((s) => {
+      const copy = copySample(s);
+      const bucket = byTime.get(copy.tSec);
+      if (bucket) bucket.push(eventSample.length);
+      else byTime.set(copy.tSec, [eventSample.length]);
+      eventPerson.push(personId);
+      eventSample.push(copy);
+      return copy;
+    });
+  }
+  const events = Array.from(byTime.keys())
+    .sort((a, b) => a - b)
+    .flatMap((tSec) => byTime.get(tSec)!.sort((a, b) => (eventSample[a].line ?? 0) - (eventSample[b].line ?? 0)));
+
+  const release = (personId: string) => {
+    const held = seatOf.get(personId);
+    if (!held) return;
+    occupants.get(held.bench)![held.seat] = null;
+    occupied.set(held.bench, occupied.get(held.bench)! - 1);
+    changed.add(held.bench);
+    seatOf.delete(personId);
+  };
+
+  // Occupancy points for the benches that changed at tSec
+  const record = (tSec: number) => {
+    changed.forEach((benchId) => {
+      const series = occupancy[benchId];
+      const count = occupied.get(benchId)!;
+      const last = series[series.length - 1];
+      if (last && last.tSec === tSec) last.occupied = count;
+      else if (!last || last.occupied !== count) series.push({ tSec, occupied: count });
+    });
+    changed.clear();
+  };
+
+  // Seat centres per bench
+  const seatAngles = new Map(room.benches.map((b) => [b.id, Array.from({ length: b.seats }, (_, seat) => seatAngle(b, seat))]));
+
+  events.forEach((e, i) => {
+    const personId = eventPerson[e];
+    const sample = eventSample[e];
+    const bench = sample.bench ? benches.get(sample.bench) : undefined;
+    const held = seatOf.get(personId);
+
+    if (bench && held?.bench === bench.id && sample.angleDeg !== undefined) {
+      // Still on the same bench: keep the seat
+      sample.recordedAngleDeg = sample.angleDeg;
+      sample.seat = held.seat;
+      sample.angleDeg = seatAngles.get(bench.id)![held.seat];
+    } else if (bench && sample.angleDeg !== undefined) {
+      release(personId);
+      // Nearest free seat to where the person was recorded
+      const seats = occupants.get(bench.id)!;
+      let best = -1;
+      let bestDist = Infinity;
+      for (let seat = 0; seat < seats.length; seat++) {
+        if (seats[seat] !== null) continue;
+        const dist = Math.abs(shortestAngleDist(sample.angleDeg, seatAngles.get(bench.id)![seat]));
+        if (dist < bestDist) {
+          best = seat;
+          bestDist = dist;
+        }
+      }
+
+      sample.recordedAngleDeg = sample.angleDeg;
+      if (best >= 0) {
+        seats[best] = personId;
+        occupied.set(bench.id, occupied.get(bench.id)! + 1);
+        changed.add(bench.id);
+        seatOf.set(personId, { bench: bench.id, seat: best });
+        sample.seat = best;
+        sample.angleDeg = seatAngles.get(bench.id)![best];
+      } else {
+        sample.angleDeg = clampAngleToBench(sample.angleDeg, bench.id, room);
+      }
+    } else {
+      release(personId);
+    }
+
+    // One occupancy point per time, after all its samples
+    if (eventSample[events[i + 1]]?.tSec !== sample.tSec) record(sample.tSec);
+  });
+
+  return { csvPositions: positions, occupancy };
+};
@@ -0,0 +1,12 @@
+import { bench, describe } from 'vitest';
+import { runPlaybackBenchmark } from './benchmarkSession';
+
+describe('playback', () => {
+  bench(
+    '2000 people, 1 h: load, 600 frames and 600 seeks',
+    () => {
+      console.table(runPlaybackBenchmark());
+    },
+    { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 }
+  );
+});
@@ -0,0 +1,220 @@
+/**
+ * Benchmark session - generated train-station-scale data for profiling playback
+ *
+ * Seeded, so runs are comparable: each person comes in through a doorway,
+ * alternates between walking about and sitting on a bench, then walks back
+ * to the doorway and leaves the way they came. Load it with importSession, or time playback with
+ * runPlaybackBenchmark (npm run bench).
+ */
+
+import { BENCH_RADIUS_FACTOR, ROOM, arcSpanDeg, getActiveRoom, setActiveRoom, type PolarPoint, type RoomGeometry } from './roomGeometry';
+import { normalizeAngle } from './interpolation';
+import { routeAroundObstacles } from './obstacles';
+import { createPlaybackStore, type SessionImport } from './usePeoplePlaybackStore';
+
+export interface BenchmarkOptions {
+  people: number;
+  durationSec: number;
+  stepSec: number;
+  seed: number;
+}
+
+export const DEFAULT_BENCHMARK: BenchmarkOptions = { people: 2000, durationSec: 3600, stepSec: 10, seed: 1 };
+
+export interface PlaybackBenchmarkResult {
+  samples: number;
+  loadMs: number;
+  frames: number;
+  meanFrameMs: number;
+  maxFrameMs: number;
+  meanSeekMs: number;
+}
+
+// Helper: seeded PRNG (mulberry32), uniform in [0, 1)
+const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Walking pace, metres per second
+const WALK_SPEED_MPS = 0.5;
+
+// Helper: move from `from` towards `to` by at most maxStep (unit room space, rim at 1)
+const stepTowards = (from: PolarPoint, to: PolarPoint, maxStep: number): PolarPoint => {
+  const rad = (p: PolarPoint) => (p.angleDeg * Math.PI) / 180;
+  const ax = from.radiusFactor * Math.cos(rad(from));
+  const ay = from.radiusFactor * Math.sin(rad(from));
+  const bx = to.radiusFactor * Math.cos(rad(to));
+  const by = to.radiusFactor * Math.sin(rad(to));
+  const dist = Math.hypot(bx - ax, by - ay);
+  if (dist <= maxStep) return to;
+  const x = ax + ((bx - ax) * maxStep) / dist;
+  const y = ay + ((by - ay) * maxStep) / dist;
+  return { angleDeg: normalizeAngle((Math.atan2(y, x) * 180) / Math.PI), radiusFactor: Math.hypot(x, y) };
+};
+
+type BenchmarkKey = PolarPoint & { t: number; bench: string; motion: 'STILL' | 'MOVING' };
+
+/**
+ * positions CSV (personId,tSec,angleDeg,radiusFactor,bench,motion) for a generated session
+ * People walk at WALK_SPEED_MPS between samples (to a bench before sitting
+ * down, to their doorway before leaving) and around the room's obstacles.
+ */
+export const generateBenchmarkCSV = (options: Partial<BenchmarkOptions> = {}, room: RoomGeometry = ROOM): string => {
+  const { people, durationSec, stepSec, seed } = { ...DEFAULT_BENCHMARK, ...options };
+  const random = createRandom(seed);
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const between = (lo: number, hi: number) => lo + random() * (hi - lo);
+  const steps = Math.floor(durationSec / stepSec);
+  const maxStep = (WALK_SPEED_MPS * stepSec) / room.radiusM;
+  const outsideRadius = room.exitRadiusFactor + 0.08;
+  const insideRadius = room.exitRadiusFactor * 0.9;
+  const rows = ['personId,tSec,angleDeg,radiusFactor,bench,motion'];
+
+  for (let p = 1; p <= people; p++) {
+    const personId = `P${String(p).padStart(String(people).length, '0')}`;
+    const doorway = room.doorways.length > 0 ? pick(room.doorways) : null;
+    const doorAngle = doorway
+      ? normalizeAngle(doorway.startDeg + arcSpanDeg(doorway.startDeg, doorway.endDeg) / 2)
+      : between(0, 360);
+    const door: PolarPoint = { angleDeg: doorAngle, radiusFactor: insideRadius };
+    const arrive = Math.floor(random() * steps * 0.8);
+    const leave = Math.min(steps, arrive + Math.ceil(between(300, 2400) / stepSec));
+
+    // Outside until arriving; then walking to a spot or a seat, sitting, and
+    // finally walking back to the doorway and out
+    let state: 'waiting' | 'walking' | 'seated' | 'leaving' | 'gone' = 'waiting';
+    let position: PolarPoint = door;
+    let target: PolarPoint = door;
+    let goal = 'wander' as 'wander' | 'sit' | 'leave'; // set by chooseNext
+    let bench = '';
+    let spellEnd = 0;
+
+    const chooseNext = (k: number) => {
+      if (k >= leave) {
+        goal = 'leave';
+        target = door;
+      } else if (room.benches.length > 0 && random() < 0.5) {
+        const seat = pick(room.benches);
+        goal = 'sit';
+        target = {
+          angleDeg: normalizeAngle(seat.startDeg + random() * arcSpanDeg(seat.startDeg, seat.endDeg)),
+          radiusFactor: BENCH_RADIUS_FACTOR,
+        };
+        bench = seat.id;
+      } else {
+        goal = 'wander';
+        target = { angleDeg: between(0, 360), radiusFactor: between(0.2, 0.85) };
+      }
+    };
+
+    const track: BenchmarkKey[] = [];
+    for (let k = 0; k <= steps; k++) {
+      if (state === 'waiting' && k > arrive) {
+        state = 'walking';
+        position = door;
+        chooseNext(k);
+      } else if (state === 'walking') {
+        position = stepTowards(position, target, maxStep);
+        if (position === target) {
+          if (goal === 'sit') {
+            state = 'seated';
+            spellEnd = k + Math.ceil(between(120, 900) / stepSec);
+          } else if (goal === 'leave') {
+            state = 'leaving';
+          } else {
+            chooseNext(k);
+          }
+        }
+      } else if (state === 'seated' && (k >= spellEnd || k >= leave)) {
+        state = 'walking';
+        bench = '';
+        chooseNext(k);
+      } else if (state === 'leaving') {
+        state = 'gone';
+      }
+
+      const t = k * stepSec;
+      if (state === 'waiting' || state === 'gone') {
+        track.push({ t, angleDeg: doorAngle, radiusFactor: outsideRadius, bench: 'EXIT', motion: 'STILL' });
+      } else if (state === 'seated') {
+        track.push({ t, ...position, bench, motion: 'STILL' });
+      } else {
+        track.push({ t, ...position, bench: '', motion: 'MOVING' });
+      }
+    }
+
+    for (const key of routeAroundObstacles(track, room)) {
+      rows.push(
+        `${personId},${+key.t.toFixed(2)},${key.angleDeg.toFixed(1)},${key.radiusFactor.toFixed(3)},${key.bench},${key.motion}`
+      );
+    }
+  }
+  return rows.join('\n');
+};
+
+/**
+ * Session import for a generated benchmark session
+ */
+export const generateBenchmarkSession = (options: Partial<BenchmarkOptions> = {}): SessionImport => {
+  const { people, durationSec } = { ...DEFAULT_BENCHMARK, ...options };
+  return {
+    csvText: generateBenchmarkCSV(options),
+    manifest: { title: `Benchmark: ${people} people, ${Math.round(durationSec / 60)} min` },
+  };
+};
+
+/**
+ * Loads a benchmark session and times computePeopleAtTime over `frames`
+ * sequential 60 fps frames at `speed` from mid-session, then over as many
+ * random seeks
+ * Runs in a store of its own, so the loaded session and its room are left as they were.
+ */
+export const runPlaybackBenchmark = (
+  options: Partial<BenchmarkOptions> & { frames?: number; speed?: number } = {}
+): PlaybackBenchmarkResult => {
+  const { frames = 600, speed = 16, ...sessionOptions } = options;
+  const session = generateBenchmarkSession(sessionOptions);
+  const random = createRandom(DEFAULT_BENCHMARK.seed);
+
+  const store = createPlaybackStore();
+  const activeRoom = getActiveRoom();
+
+  const loadStart = performance.now();
+  store.getState().importSession(session);
+  const loadMs = performance.now() - loadStart;
+  // Importing made the benchmark's room the active one: give the app's back
+  setActiveRoom(activeRoom);
+  const { durationSec, csvPositions, setTime, pause } = store.getState();
+  pause();
+
+  let total = 0;
+  let max = 0;
+  for (let f = 0; f < frames; f++) {
+    const start = performance.now();
+    setTime((durationSec / 2 + (f * speed) / 60) % durationSec);
+    const ms = performance.now() - start;
+    total += ms;
+    max = Math.max(max, ms);
+  }
+
+  const seekStart = performance.now();
+  for (let f = 0; f < frames; f++) setTime(random() * durationSec);
+  const seekMs = performance.now() - seekStart;
+
+  const result = {
+    samples: Object.values(csvPositions ?? {}).reduce((n, samples) => n + samples.length, 0),
+    loadMs,
+    frames,
+    meanFrameMs: total / frames,
+    maxFrameMs: max,
+    meanSeekMs: seekMs / frames,
+  };
+  return result;
+};
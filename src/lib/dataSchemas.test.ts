@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseDataFile } from './dataSchemas';
+
+const person = { id: 'P1', angleDeg: 90, radiusFactor: 0.5, bench: '', color: '#cfbd94', posture: 'upright', words: '' };
+
+describe('parseDataFile', () => {
+  it('reads a bare legacy payload as version 1', () => {
+    expect(parseDataFile('people', [person], 'people.json')).toEqual({ data: [person], error: null, version: 1 });
+  });
+
+  it('unwraps a versioned envelope', () => {
+    const schedule = { motionSchedule: [{ interval: 'a', tA: 0, tB: 10, STILL: ['P1'], MOVING: [] }] };
+    expect(parseDataFile('motionSchedule', { schemaVersion: 1, data: schedule }, 'm.json')).toEqual({
+      data: schedule,
+      error: null,
+      version: 1,
+    });
+  });
+
+  it('rejects unsupported schema versions', () => {
+    const { data, error } = parseDataFile('people', { schemaVersion: 2, data: [person] }, 'people.json');
+    expect(data).toBeNull();
+    expect(error).toEqual({
+      kind: 'people',
+      source: 'people.json',
+      issues: [{ path: 'schemaVersion', message: 'Unsupported schema version 2 (supported: 1)' }],
+    });
+    expect(parseDataFile('people', { schemaVersion: '1', data: [] }, 'x').error?.issues[0].path).toBe('schemaVersion');
+  });
+
+  it('lists field-level issues with their paths', () => {
+    const { data, error } = parseDataFile('people', [person, { ...person, id: ' ', color: 'gold' }], 'people.json');
+    expect(data).toBeNull();
+    expect(error?.issues).toEqual([
+      { path: '[1].id', message: 'Person id must not be empty' },
+      { path: '[1].color', message: 'Expected a #rrggbb color' },
+    ]);
+  });
+
+  it('checks cross-field rules', () => {
+    const schedule = { motionSchedule: [{ interval: 'a', tA: 10, tB: 5, STILL: [], MOVING: [] }] };
+    expect(parseDataFile('motionSchedule', schedule, 'm.json').error?.issues).toEqual([
+      { path: 'motionSchedule[0].tB', message: 'tB must be greater than tA' },
+    ]);
+    expect(parseDataFile('session', { startTime: '25:00' }, 's.json').error?.issues[0].path).toBe('startTime');
+    expect(parseDataFile('session', { startTime: '4:56 PM' }, 's.json').data).toEqual({ startTime: '4:56 PM' });
+  });
+});
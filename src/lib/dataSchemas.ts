@@ -0,0 +1,321 @@
+/**
+ * Data file schemas - zod validation for every JSON data format
+ *
+ * Each format (people, timeline, motion schedule, colors, notes, postures,
+ * session manifest, room geometry) is versioned. A file is either the bare legacy payload
+ * (treated as schema version 1) or an envelope:
+ *
+ *   { "schemaVersion": 1, "data": <payload> }
+ *
+ * Loads go through parseDataFile / fetchDataFile, which return field-level
+ * issues instead of throwing so the UI can show what to fix.
+ */
+
+import { z } from 'zod';
+import type { MotionInterval, PersonBase, TimelinePerson } from './usePeoplePlaybackStore';
+import { parseClockTime, type SessionManifest } from './sessionClock';
+import { INTERPOLATION_MODES } from './interpolation';
+import { normalizeRoomGeometry, type RoomGeometry } from './roomGeometry';
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #rrggbb color');
+const angleDeg = z.number().finite();
+const radiusFactor = z.number().finite().nonnegative();
+const personId = z.string().trim().min(1, 'Person id must not be empty');
+
+// ====== people.json ======
+const personV1 = z.object({
+  id: personId,
+  angleDeg,
+  radiusFactor,
+  bench: z.string(),
+  color: hexColor,
+  posture: z.string(),
+  words: z.string(),
+});
+
+// ====== timeline.json ======
+const timelinePointV1 = z.object({
+  t: z.number().finite().nonnegative(),
+  action: z.string().min(1),
+  angleDeg,
+  radiusFactor,
+  duration: z.number().finite().nonnegative().optional(),
+});
+
+const timelinePersonV1 = z.object({
+  id: personId,
+  track: z.array(timelinePointV1),
+});
+
+// ====== motion_schedule.json ======
+const motionIntervalV1 = z
+  .object({
+    interval: z.string(),
+    tA: z.number().finite().nonnegative(),
+    tB: z.number().finite().nonnegative(),
+    STILL: z.array(personId),
+    MOVING: z.array(personId),
+  })
+  .refine((iv) => iv.tB > iv.tA, { message: 'tB must be greater than tA', path: ['tB'] });
+
+// ====== colors.json / notes.json / postures.json ======
+export const POSTURES = ['upright', 'leaning', 'curled', 'phone', 'reading'] as const;
+
+const colorEntryV1 = z.object({ id: personId, angleDeg, color: hexColor });
+const noteEntryV1 = z.object({ id: personId, angleDeg, words: z.string() });
+const postureEntryV1 = z.object({ id: personId, angleDeg, posture: z.enum(POSTURES) });
+
+// ====== session.json ======
+const sessionManifestV1 = z.object({
+  title: z.string().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date').optional(),
+  location: z.string().optional(),
+  startTime: z
+    .string()
+    .refine((t) => parseClockTime(t) !== null, 'Expected a clock time like "16:56:00" or "4:56:00 PM"')
+    .optional(),
+  timeZone: z.string().min(1).optional(),
+  endCaption: z.string().optional(),
+  tracker: z
+    .object({
+      roomRadiusM: z.number().positive(),
+      originX: z.number().optional(),
+      originY: z.number().optional(),
+      rotationDeg: z.number().optional(),
+      yAxis: z.enum(['up', 'down']).optional(),
+    })
+    .optional(),
+  mot: z
+    .object({
+      fps: z.number().positive(),
+      firstFrame: z.number().int().optional(),
+      centerX: z.number(),
+      centerY: z.number(),
+      radiusPx: z.number().positive(),
+      rotationDeg: z.number().optional(),
+      anchor: z.enum(['center', 'bottom']).optional(),
+      idMap: z.record(z.string(), z.string().min(1)).optional(),
+    })
+    .optional(),
+  fieldCodes: z
+    .object({
+      jitter: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
+  interpolation: z
+    .object({
+      mode: z.enum(INTERPOLATION_MODES).optional(),
+      holdWithinSec: z.number().positive().optional(),
+      perPerson: z.record(z.string(), z.enum(INTERPOLATION_MODES)).optional(),
+    })
+    .optional(),
+});
+
+// ====== room.json ======
+const rimDeg = z.number().min(0).max(360);
+const arcV1 = { startDeg: rimDeg, endDeg: rimDeg };
+const uniqueIds = (items: { id: string }[]) => new Set(items.map((i) => i.id)).size === items.length;
+const polarPointV1 = z.object({ angleDeg, radiusFactor: radiusFactor.max(1) });
+const obstacleV1 = z.discriminatedUnion('kind', [
+  z.object({
+    id: z.string().trim().min(1),
+    label: z.string(),
+    kind: z.literal('circle'),
+    center: polarPointV1,
+    radius: z.number().positive().max(1),
+  }),
+  z.object({
+    id: z.string().trim().min(1),
+    label: z.string(),
+    kind: z.literal('polygon'),
+    points: z.array(polarPointV1).min(3, 'A polygon needs at least 3 points'),
+  }),
+]);
+
+const roomGeometryV1 = z
+  .object({
+    angleZeroDeg: z.number().finite().optional(),
+    sectors: z.number().int().min(1).max(72),
+    ringRadiusFactors: z
+      .array(z.number().positive().max(1))
+      .min(1)
+      .refine((rs) => rs.every((r, i) => i === 0 || r > rs[i - 1]), 'Ring radius factors must increase'),
+    benches: z
+      .array(
+        z.object({
+          id: z.string().trim().min(1),
+          label: z.string(),
+          color: hexColor,
+          ...arcV1,
+          seats: z.number().int().min(1).max(24).optional(),
+        })
+      )
+      .refine(uniqueIds, 'Bench ids must be unique'),
+    sectorLabels: z.array(z.string()).optional(),
+    ringLabels: z.array(z.string()).optional(),
+    cardinals: z.array(z.object({ angleDeg, label: z.string() })).optional(),
+    radiusM: z.number().positive().optional(),
+    exitRadiusFactor: z.number().positive().optional(),
+    doorways: z
+      .array(z.object({ id: z.string().trim().min(1), label: z.string(), ...arcV1 }))
+      .refine(uniqueIds, 'Doorway ids must be unique')
+      .optional(),
+    obstacles: z.array(obstacleV1).refine(uniqueIds, 'Obstacle ids must be unique').optional(),
+  })
+  .refine((room) => !room.sectorLabels || room.sectorLabels.length === room.sectors, {
+    message: 'Need one sector label per sector',
+    path: ['sectorLabels'],
+  })
+  .refine((room) => !room.ringLabels || room.ringLabels.length === room.ringRadiusFactors.length, {
+    message: 'Need one ring label per ring',
+    path: ['ringLabels'],
+  })
+  .refine((room) => !room.benches.some((b) => b.id === 'EXIT'), {
+    message: '"EXIT" is reserved and cannot be a bench id',
+    path: ['benches'],
+  })
+  .transform((room) => normalizeRoomGeometry(room as Parameters<typeof normalizeRoomGeometry>[0]));
+
+export const DATA_SCHEMAS = {
+  people: { 1: z.array(personV1) },
+  timeline: { 1: z.array(timelinePersonV1) },
+  motionSchedule: { 1: z.object({ motionSchedule: z.array(motionIntervalV1) }) },
+  colors: { 1: z.array(colorEntryV1) },
+  notes: { 1: z.array(noteEntryV1) },
+  postures: { 1: z.array(postureEntryV1) },
+  session: { 1: sessionManifestV1 },
+  room: { 1: roomGeometryV1 },
+} as const;
+
+export type DataFileKind = keyof typeof DATA_SCHEMAS;
+
+export interface ColorEntry {
+  id: string;
+  angleDeg: number;
+  color: string;
+}
+
+export interface NoteEntry {
+  id: string;
+  angleDeg: number;
+  words: string;
+}
+
+export interface PostureEntry {
+  id: string;
+  angleDeg: number;
+  posture: (typeof POSTURES)[number];
+}
+
+// Validated payload type per format (latest version)
+interface DataFileTypes {
+  people: PersonBase[];
+  timeline: TimelinePerson[];
+  motionSchedule: { motionSchedule: MotionInterval[] };
+  colors: ColorEntry[];
+  notes: NoteEntry[];
+  postures: PostureEntry[];
+  session: SessionManifest;
+  room: RoomGeometry;
+}
+
+export interface DataFileIssue {
+  path: string; // e.g. "[3].color" or "motionSchedule[0].tB"
+  message: string;
+}
+
+export interface DataFileError {
+  kind: DataFileKind;
+  source: string; // URL or file name
+  issues: DataFileIssue[];
+}
+
+// Exactly one of data / error is set
+export interface DataFileResult<K extends DataFileKind> {
+  data: DataFileTypes[K] | null;
+  error: DataFileError | null;
+  version: number | null;
+}
+
+// Helper: render a zod issue path as "[3].color"
+const formatPath = (path: (string | number)[]): string =>
+  path.map((p, i) => (typeof p === 'number' ? `[${p}]` : i === 0 ? p : `.${p}`)).join('') || '(root)';
+
+/**
+ * Validate already-parsed JSON against the schema for its format and version
+ */
+export const parseDataFile = <K extends DataFileKind>(
+  kind: K,
+  json: unknown,
+  source: string
+): DataFileResult<K> => {
+  const versions = DATA_SCHEMAS[kind] as Record<number, z.ZodTypeAny>;
+  const isEnvelope =
+    json !== null && typeof json === 'object' && !Array.isArray(json) && 'schemaVersion' in json;
+
+  const version = isEnvelope ? (json as { schemaVersion: unknown }).schemaVersion : 1;
+  const payload = isEnvelope ? (json as { data?: unknown }).data : json;
+
+  const schema = typeof version === 'number' ? versions[version] : undefined;
+  if (!schema) {
+    return {
+      data: null,
+      version: null,
+      error: {
+        kind,
+        source,
+        issues: [
+          {
+            path: 'schemaVersion',
+            message: `Unsupported schema version ${JSON.stringify(version)} (supported: ${Object.keys(versions).join(', ')})`,
+          },
+        ],
+      },
+    };
+  }
+
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    return {
+      data: null,
+      version: null,
+      error: {
+        kind,
+        source,
+        issues: result.error.issues.map((issue) => ({
+          path: formatPath(issue.path),
+          message: issue.message,
+        })),
+      },
+    };
+  }
+
+  return { data: result.data as DataFileTypes[K], error: null, version: version as number };
+};
+
+/**
+ * Fetch a JSON data file and validate it
+ * Network and JSON syntax failures are reported as issues too
+ */
+export const fetchDataFile = async <K extends DataFileKind>(
+  kind: K,
+  url: string
+): Promise<DataFileResult<K>> => {
+  let json: unknown;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    json = await res.json();
+  } catch (err) {
+    return {
+      data: null,
+      version: null,
+      error: {
+        kind,
+        source: url,
+        issues: [{ path: '(file)', message: err instanceof Error ? err.message : String(err) }],
+      },
+    };
+  }
+  return parseDataFile(kind, json, url);
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  doorwayAngleFor,
+  doorwayCrossingAngle,
+  isEntrySample,
+  isOutside,
+  nearestDoorway,
+  sessionStartSec,
+} from './doorways';
+import { ROOM, type RoomGeometry } from './roomGeometry';
+
+const room: RoomGeometry = {
+  ...ROOM,
+  doorways: [
+    { id: 'E1', label: 'Egress', startDeg: 350, endDeg: 20 },
+    { id: 'W', label: 'West', startDeg: 170, endDeg: 190 },
+  ],
+};
+
+describe('doorways', () => {
+  it('counts EXIT rows and positions beyond the exit radius as outside', () => {
+    expect(isOutside('EXIT', undefined, room)).toBe(true);
+    expect(isOutside(undefined, 1.01, room)).toBe(true);
+    expect(isOutside(undefined, 1, room)).toBe(false);
+    expect(isOutside('T2', undefined, room)).toBe(false);
+    expect(isOutside(undefined, 1.1, { ...room, exitRadiusFactor: 1.2 })).toBe(false);
+  });
+
+  it('crosses the rim where the person is when on a doorway, else at its nearer end', () => {
+    const e1 = room.doorways[0];
+    expect(doorwayCrossingAngle(e1, 5)).toBe(5);
+    expect(doorwayCrossingAngle(e1, 355)).toBe(355);
+    expect(doorwayCrossingAngle(e1, 60)).toBe(20);
+    expect(doorwayCrossingAngle(e1, 300)).toBe(350);
+  });
+
+  it('attributes a passage to the doorway containing it, else the nearest one', () => {
+    expect(nearestDoorway(0, room)?.id).toBe('E1');
+    expect(nearestDoorway(185, room)?.id).toBe('W');
+    expect(nearestDoorway(120, room)?.id).toBe('W');
+    expect(nearestDoorway(80, room)?.id).toBe('E1');
+    expect(nearestDoorway(undefined, room)?.id).toBe('E1');
+    expect(nearestDoorway(0, { ...room, doorways: [] })).toBeNull();
+  });
+
+  it('finds the crossing angle by doorway id, falling back to the angle', () => {
+    expect(doorwayAngleFor('W', 120, room)).toBe(170);
+    expect(doorwayAngleFor('nope', 120, room)).toBe(120);
+  });
+});
+
+describe('entries', () => {
+  const csvPositions = {
+    P1: [
+      { tSec: 0, angleDeg: 90, radiusFactor: 0.5 },
+      { tSec: 10, bench: 'EXIT' },
+      { tSec: 20, angleDeg: 0, radiusFactor: 0.9 },
+    ],
+    P2: [{ tSec: 5, angleDeg: 180, radiusFactor: 0.9 }],
+  };
+  const startSec = sessionStartSec(csvPositions);
+
+  it('starts the session at the earliest sample', () => {
+    expect(startSec).toBe(0);
+    expect(sessionStartSec({})).toBe(0);
+  });
+
+  it('counts coming in from outside and first appearing after the start as entries', () => {
+    expect([0, 1, 2].map((i) => isEntrySample(csvPositions.P1, i, room, startSec))).toEqual([false, false, true]);
+    expect(isEntrySample(csvPositions.P2, 0, room, startSec)).toBe(true);
+    expect(isEntrySample(csvPositions.P2, 0, room, 5)).toBe(false);
+  });
+});
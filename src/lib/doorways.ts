@@ -0,0 +1,82 @@
+/**
+ * Doorways - where people enter and leave the room
+ *
+ * A sample is outside the room when its bench is EXIT or it lies beyond the
+ * room's exitRadiusFactor. Every passage between outside and inside is
+ * attributed to a doorway (room.doorways): the one containing the angle
+ * where it happened, otherwise the nearest one along the rim.
+ */
+
+import { isAngleInArc, type Doorway, type RoomGeometry } from './roomGeometry';
+import { normalizeAngle, shortestAngleDist } from './interpolation';
+import type { CSVSample } from './usePeoplePlaybackStore';
+
+/**
+ * Whether a position is outside the room
+ */
+export const isOutside = (bench: string | undefined, radiusFactor: number | undefined, room: RoomGeometry): boolean =>
+  bench === 'EXIT' || (radiusFactor !== undefined && radiusFactor > room.exitRadiusFactor);
+
+/**
+ * Whether a CSV sample is outside the room
+ */
+export const isOutsideSample = (s: CSVSample, room: RoomGeometry): boolean => isOutside(s.bench, s.radiusFactor, room);
+
+/**
+ * Time of the earliest sample in the session (0 when there are none)
+ */
+export const sessionStartSec = (csvPositions: Record<string, CSVSample[]>): number => {
+  let start = Infinity;
+  for (const samples of Object.values(csvPositions)) if (samples.length > 0) start = Math.min(start, samples[0].tSec);
+  return Number.isFinite(start) ? start : 0;
+};
+
+/**
+ * Whether samples[i] is an entry: in the room after an outside sample, or a
+ * person's first sample when it comes after the session start (people
+ * already there at the start didn't come in)
+ */
+export const isEntrySample = (samples: CSVSample[], i: number, room: RoomGeometry, startSec: number): boolean => {
+  if (isOutsideSample(samples[i], room)) return false;
+  const prev = samples[i - 1];
+  return prev ? isOutsideSample(prev, room) : samples[i].tSec > startSec;
+};
+
+/**
+ * Closest angle to angleDeg on a doorway's arc (angleDeg itself when inside)
+ * This is where someone at angleDeg crosses the rim.
+ */
+export const doorwayCrossingAngle = (doorway: Doorway, angleDeg: number): number => {
+  if (isAngleInArc(angleDeg, doorway.startDeg, doorway.endDeg)) return normalizeAngle(angleDeg);
+  const toStart = Math.abs(shortestAngleDist(angleDeg, doorway.startDeg));
+  const toEnd = Math.abs(shortestAngleDist(angleDeg, doorway.endDeg));
+  return toStart <= toEnd ? doorway.startDeg : doorway.endDeg;
+};
+
+/**
+ * Doorway a passage at angleDeg goes through (null if the room has none)
+ */
+export const nearestDoorway = (angleDeg: number | undefined, room: RoomGeometry): Doorway | null => {
+  if (room.doorways.length === 0) return null;
+  if (angleDeg === undefined) return room.doorways[0];
+
+  let nearest = room.doorways[0];
+  let nearestDist = Infinity;
+  for (const doorway of room.doorways) {
+    const dist = Math.abs(shortestAngleDist(angleDeg, doorwayCrossingAngle(doorway, angleDeg)));
+    if (dist < nearestDist) {
+      nearest = doorway;
+      nearestDist = dist;
+    }
+  }
+  return nearest;
+};
+
+/**
+ * Angle at which someone passes through a doorway (by id) from angleDeg
+ * Falls back to angleDeg for an unknown doorway.
+ */
+export const doorwayAngleFor = (doorwayId: string | undefined, angleDeg: number, room: RoomGeometry): number => {
+  const doorway = room.doorways.find((d) => d.id === doorwayId);
+  return doorway ? doorwayCrossingAngle(doorway, angleDeg) : angleDeg;
+};
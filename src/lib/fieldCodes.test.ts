@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  convertFieldCodeCSV,
+  exportFieldCodesCSV,
+  isFieldCodeCSV,
+  parseFieldCode,
+  positionToFieldCode,
+} from './fieldCodes';
+import { parseCSV, parsePositionsCSV } from './positionsCsv';
+import { BENCH_RADIUS_FACTOR, ROOM } from './roomGeometry';
+
+describe('parseFieldCode', () => {
+  it('places sector/ring cells at their centre', () => {
+    expect(parseFieldCode('S3-R4', ROOM)).toEqual({ angleDeg: 126, radiusFactor: 0.7, widthDeg: 36 });
+    expect(parseFieldCode('s3 r4', ROOM)).toEqual(parseFieldCode('S3/R4', ROOM));
+    // A sector alone is its outer ring
+    expect(parseFieldCode('S0', ROOM)).toMatchObject({ angleDeg: 18, radiusFactor: 0.9 });
+  });
+
+  it('places bench codes on a third of the bench', () => {
+    expect(parseFieldCode('T2-', ROOM)).toEqual({ angleDeg: 78, radiusFactor: BENCH_RADIUS_FACTOR, bench: 'T2', widthDeg: 12 });
+    expect(parseFieldCode('T2', ROOM)?.angleDeg).toBe(90);
+    expect(parseFieldCode('t2+', ROOM)?.angleDeg).toBe(102);
+  });
+
+  it('reads EXIT and rejects unknown codes', () => {
+    expect(parseFieldCode('exit', ROOM)).toEqual({ bench: 'EXIT', widthDeg: 0 });
+    for (const code of ['S10', 'S3-R9', 'S3-R4-X', 'Z9', '']) expect(parseFieldCode(code, ROOM)).toBeNull();
+  });
+});
+
+describe('positionToFieldCode', () => {
+  it('round-trips every cell and bench third', () => {
+    const codes = [
+      ...ROOM.sectorLabels.flatMap((s) => ROOM.ringLabels.map((r) => `${s}-${r}`)),
+      ...ROOM.benches.flatMap((b) => [`${b.id}-`, b.id, `${b.id}+`]),
+      'EXIT',
+    ];
+    for (const code of codes) {
+      const p = parseFieldCode(code, ROOM)!;
+      expect(positionToFieldCode(p.angleDeg, p.radiusFactor, p.bench, ROOM)).toBe(code);
+    }
+  });
+
+  it('codes a seat off its bench arc by the bench alone', () => {
+    expect(positionToFieldCode(0, BENCH_RADIUS_FACTOR, 'T2', ROOM)).toBe('T2');
+    expect(positionToFieldCode(undefined, undefined, undefined, ROOM)).toBe('');
+  });
+});
+
+describe('convertFieldCodeCSV', () => {
+  const sheet = 'personId,tSec,code,notes\nP1,0,S3-R4,in\nP2,0,S3-R4,\nP1,5,T2+,\nP2,5,Q7,\nP1,9,EXIT,\n';
+
+  it('is only used for sheets with a code column and no angle column', () => {
+    expect(isFieldCodeCSV(sheet)).toBe(true);
+    expect(isFieldCodeCSV('personId,tSec,angleDeg,code\n')).toBe(false);
+  });
+
+  it('rewrites codes as positions and lists unknown codes', () => {
+    const { csvText, invalidRows } = convertFieldCodeCSV(sheet, ROOM);
+    expect(invalidRows).toEqual([{ line: 5, value: 'Q7' }]);
+    expect(parseCSV(csvText).map((r) => r.fields)).toEqual([
+      ['personId', 'tSec', 'angleDeg', 'radiusFactor', 'notes', 'bench'],
+      ['P1', '0', '126', '0.7', 'in', ''],
+      ['P2', '0', '126', '0.7', '', ''],
+      ['P1', '5', '102', '0.92', '', 'T2'],
+      ['P2', '5', '', '', '', ''],
+      ['P1', '9', '', '', '', 'EXIT'],
+    ]);
+  });
+
+  it('fans out people sharing a code, in personId order', () => {
+    const { csvText } = convertFieldCodeCSV(sheet, ROOM, { jitter: 0.5 });
+    const angles = parseCSV(csvText).slice(1, 3).map((r) => Number(r.fields[2]));
+    expect(angles).toEqual([126 - 4.5, 126 + 4.5]);
+  });
+
+  it('exports loaded samples back to the same codes', () => {
+    const { csvText } = convertFieldCodeCSV(sheet, ROOM);
+    const { csvPositions } = parsePositionsCSV(csvText, { room: ROOM });
+    const codes = parseCSV(exportFieldCodesCSV(csvPositions, ROOM)).map((r) => r.fields[3]);
+    expect(codes).toEqual(['code', 'S3-R4', 'S3-R4', 'T2+', '', 'EXIT']);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Field codes - paper field-sheet positions ↔ polar positions
+ *
+ * Observers on paper write a position as a code instead of degrees:
+ * - sector/ring cell   "S3-R4" → centre of sector S3, midway across ring R4
+ * - sector only        "S3"    → centre of sector S3, outermost ring
+ * - bench              "T1"    → middle of bench T1; "T1-" / "T1+" the third
+ *                                nearest its start / end (counter-clockwise)
+ * - outside            "EXIT"
+ * Labels come from the room (sectorLabels, ringLabels, bench ids) and match
+ * case-insensitively. A code CSV is rewritten as a positions CSV, like the
+ * tracker import, and positions can be written back as codes for the sheets.
+ */
+
+import {
+  arcSpanDeg,
+  BENCH_RADIUS_FACTOR,
+  gridCellAt,
+  isAngleInArc,
+  type BenchDef,
+  type RoomGeometry,
+} from './roomGeometry';
+import { normalizeAngle } from './interpolation';
+import { isOutside } from './doorways';
+import { headerKey, parseCSV, resolveHeaders, serializeCSV } from './positionsCsv';
+import type { CSVSample } from './usePeoplePlaybackStore';
+
+export interface FieldCodePosition {
+  angleDeg?: number; // undefined for EXIT
+  radiusFactor?: number;
+  bench?: string; // set for bench codes and EXIT
+  widthDeg: number; // angular width of the cell the code stands for (0 for EXIT)
+}
+
+/**
+ * Field-code import options (session.json `fieldCodes`)
+ */
+export interface FieldCodeOptions {
+  jitter?: number; // fraction of a cell's width used to fan out people sharing a code (default 0)
+}
+
+export interface FieldCodeConversion {
+  csvText: string;
+  invalidRows: { line: number; value: string }[];
+}
+
+// Header aliases for the code column (same normalization as positionsCsv)
+const CODE_ALIASES = ['code', 'fieldcode', 'cell', 'gridcell', 'position', 'pos'];
+
+// Helper: column index of the first header matching an alias, -1 if none
+const findColumn = (headers: string[], aliases: string[]): number =>
+  headers.findIndex((h) => aliases.includes(headerKey(h)));
+
+// Helper: number → compact decimal text ("12.5", not "12.500000001")
+const formatNumber = (value: number, digits: number): string => String(Number(value.toFixed(digits)));
+
+// Helper: label → index, case-insensitive (-1 if none)
+const labelIndex = (labels: readonly string[], label: string): number =>
+  labels.findIndex((l) => l.toUpperCase() === label.toUpperCase());
+
+// Helper: centre angle of a bench third (0 = start, 1 = middle, 2 = end)
+const benchThirdAngle = (bench: BenchDef, third: number): number =>
+  normalizeAngle(bench.startDeg + (arcSpanDeg(bench.startDeg, bench.endDeg) * (third + 0.5)) / 3);
+
+/**
+ * Position a field code stands for in a room, null when it is not a code
+ */
+export const parseFieldCode = (code: string, room: RoomGeometry): FieldCodePosition | null => {
+  const text = code.trim();
+  if (text.toUpperCase() === 'EXIT') return { bench: 'EXIT', widthDeg: 0 };
+
+  // Bench, optionally followed by - (start third) or + (end third)
+  const benchMatch = text.match(/^(.+?)([+-]?)$/);
+  const bench = benchMatch && room.benches.find((b) => b.id.toUpperCase() === benchMatch[1].toUpperCase());
+  if (bench) {
+    const third = benchMatch[2] === '-' ? 0 : benchMatch[2] === '+' ? 2 : 1;
+    return {
+      angleDeg: benchThirdAngle(bench, third),
+      radiusFactor: BENCH_RADIUS_FACTOR,
+      bench: bench.id,
+      widthDeg: arcSpanDeg(bench.startDeg, bench.endDeg) / 3,
+    };
+  }
+
+  // Sector, optionally followed by a ring ("S3-R4", "S3 R4", "S3/R4")
+  const [sectorLabel, ringLabel, ...rest] = text.split(/\s*[-/\s]\s*/);
+  if (rest.length > 0) return null;
+  const sector = labelIndex(room.sectorLabels, sectorLabel);
+  if (sector < 0) return null;
+  const ring = ringLabel === undefined ? room.rings - 1 : labelIndex(room.ringLabels, ringLabel);
+  if (ring < 0) return null;
+
+  const inner = ring === 0 ? 0 : room.ringRadiusFactors[ring - 1];
+  return {
+    angleDeg: normalizeAngle(room.angleZeroDeg + (sector + 0.5) * room.sectorSizeDeg),
+    radiusFactor: (inner + room.ringRadiusFactors[ring]) / 2,
+    widthDeg: room.sectorSizeDeg,
+  };
+};
+
+/**
+ * Field code for a position: bench third when seated on one of the room's
+ * benches, EXIT when outside, otherwise the sector/ring cell
+ */
+export const positionToFieldCode = (
+  angleDeg: number | undefined,
+  radiusFactor: number | undefined,
+  bench: string | undefined,
+  room: RoomGeometry
+): string => {
+  if (isOutside(bench, radiusFactor, room)) return 'EXIT';
+
+  const seat = room.benches.find((b) => b.id === bench);
+  if (seat) {
+    if (angleDeg === undefined || !isAngleInArc(angleDeg, seat.startDeg, seat.endDeg)) return seat.id;
+    const third = Math.min(
+      2,
+      Math.floor((arcSpanDeg(seat.startDeg, angleDeg) / arcSpanDeg(seat.startDeg, seat.endDeg)) * 3)
+    );
+    return `${seat.id}${['-', '', '+'][third]}`;
+  }
+
+  if (angleDeg === undefined) return '';
+  return gridCellAt(angleDeg, radiusFactor ?? BENCH_RADIUS_FACTOR, room).code;
+};
+
+/**
+ * Whether a CSV holds field-sheet codes (a code column, no angle column)
+ */
+export const isFieldCodeCSV = (csvText: string): boolean => {
+  const [header] = parseCSV(csvText);
+  if (!header) return false;
+  const { columns } = resolveHeaders(header.fields);
+  return columns.angleDeg === undefined && findColumn(header.fields, CODE_ALIASES) !== -1;
+};
+
+/**
+ * Rewrite a field-code CSV as a positions CSV
+ * The code column becomes angleDeg, followed by radiusFactor and (when the
+ * sheet has none) bench columns. With jitter, people who share a code at the
+ * same time are spread evenly across that fraction of the cell's width, in
+ * personId order, so the result is the same on every import. Rows with an
+ * unknown code keep an empty position and are listed in `invalidRows`.
+ */
+export const convertFieldCodeCSV = (
+  csvText: string,
+  room: RoomGeometry,
+  options: FieldCodeOptions = {}
+): FieldCodeConversion => {
+  const [header, ...rows] = parseCSV(csvText);
+  const invalidRows: FieldCodeConversion['invalidRows'] = [];
+  if (!header) return { csvText, invalidRows };
+
+  const codeIdx = findColumn(header.fields, CODE_ALIASES);
+  if (codeIdx === -1) return { csvText, invalidRows };
+  const { columns } = resolveHeaders(header.fields);
+  const cell = (fields: string[], idx: number | undefined): string =>
+    idx === undefined ? '' : (fields[idx] ?? '').trim();
+
+  const positions = rows.map(({ line, fields }) => {
+    const raw = cell(fields, codeIdx);
+    const position = raw === '' ? null : parseFieldCode(raw, room);
+    if (raw !== '' && !position) invalidRows.push({ line, value: raw });
+    return position;
+  });
+
+  // Fan out people sharing a code at the same time
+  const jitter = Math.min(1, Math.max(0, options.jitter ?? 0));
+  const angles = positions.map((p) => p?.angleDeg);
+  if (jitter > 0) {
+    const groups = new Map<string, number[]>();
+    positions.forEach((position, i) => {
+      if (position?.angleDeg === undefined) return;
+      const { fields } = rows[i];
+      const key = `${cell(fields, columns.tSec) || cell(fields, columns.time)}@${cell(fields, codeIdx).toUpperCase()}`;
+      groups.set(key, [...(groups.get(key) ?? []), i]);
+    });
+    for (const members of groups.values()) {
+      if (members.length < 2) continue;
+      members.sort((a, b) => cell(rows[a].fields, columns.personId).localeCompare(cell(rows[b].fields, columns.personId)));
+      members.forEach((i, k) => {
+        const offset = ((k + 0.5) / members.length - 0.5) * jitter * positions[i]!.widthDeg;
+        angles[i] = normalizeAngle(positions[i]!.angleDeg! + offset);
+      });
+    }
+  }
+
+  const addBench = columns.bench === undefined;
+  const expand = (fields: string[], angle: string, radius: string, bench: string): string[] => {
+    const out = [...fields.slice(0, codeIdx), angle, radius, ...fields.slice(codeIdx + 1)];
+    return addBench ? [...out, bench] : out;
+  };
+
+  const headerOut = expand(header.fields, 'angleDeg', 'radiusFactor', 'bench');
+  const rowsOut = rows.map(({ fields }, i) => {
+    const position = positions[i];
+    const out = expand(
+      fields,
+      angles[i] === undefined ? '' : formatNumber(angles[i]!, 2),
+      position?.radiusFactor === undefined ? '' : formatNumber(position.radiusFactor, 4),
+      position?.bench ?? ''
+    );
+    // A code naming a bench fills an empty bench column
+    if (!addBench && position?.bench) {
+      const benchIdx = columns.bench! + (columns.bench! > codeIdx ? 1 : 0);
+      if ((out[benchIdx] ?? '').trim() === '') out[benchIdx] = position.bench;
+    }
+    return out;
+  });
+
+  return { csvText: serializeCSV([headerOut, ...rowsOut]), invalidRows };
+};
+
+/**
+ * Field-code CSV (personId, tSec, time, code, notes, motion) for loaded samples
+ * Seated samples are coded from their recorded angle, not their seat.
+ */
+export const exportFieldCodesCSV = (csvPositions: Record<string, CSVSample[]>, room: RoomGeometry): string => {
+  const rows = Object.entries(csvPositions)
+    .flatMap(([personId, samples]) => samples.map((s) => ({ personId, s })))
+    .sort((a, b) => a.s.tSec - b.s.tSec || a.personId.localeCompare(b.personId))
+    .map(({ personId, s }) => [
+      personId,
+      formatNumber(s.tSec, 3),
+      s.time ?? '',
+      positionToFieldCode(s.recordedAngleDeg ?? s.angleDeg, s.radiusFactor, s.bench, room),
+      s.notes ?? '',
+      s.motion ?? '',
+    ]);
+  return serializeCSV([['personId', 'tSec', 'time', 'code', 'notes', 'motion'], ...rows]);
+};
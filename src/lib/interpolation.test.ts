@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  interpolatePolar,
+  interpolateTrack,
+  lastIndexAtOrBefore,
+  modeForPerson,
+  normalizeAngle,
+  shortestAngleDist,
+  type PolarKey,
+} from './interpolation';
+
+const key = (t: number, angleDeg: number, radiusFactor = 0.5): PolarKey => ({ t, angleDeg, radiusFactor });
+
+// Helper: position rounded to 6 decimals (so an angle of 359.9999999° reads as 0°)
+const at = (...args: Parameters<typeof interpolatePolar>) => {
+  const p = interpolatePolar(...args);
+  return p && [Number(normalizeAngle(Number(p.angleDeg.toFixed(6))).toFixed(6)), Number(p.radiusFactor.toFixed(6))];
+};
+
+describe('angles', () => {
+  it('normalizes into [0, 360)', () => {
+    expect([-10, 360, 370, 725].map(normalizeAngle)).toEqual([350, 0, 10, 5]);
+  });
+
+  it('measures the shortest signed way round, across 0°', () => {
+    expect(shortestAngleDist(350, 10)).toBe(20);
+    expect(shortestAngleDist(10, 350)).toBe(-20);
+    expect(shortestAngleDist(0, 180)).toBe(180);
+    expect(shortestAngleDist(90, 90)).toBe(0);
+  });
+});
+
+describe('interpolatePolar', () => {
+  it('blends linearly along the shortest arc, through 0° rather than back round', () => {
+    expect(at(null, key(0, 350, 0.2), key(10, 10, 0.6), null, 5, 'linear', 5)).toEqual([0, 0.4]);
+    expect(at(null, key(0, 10), key(10, 350), null, 2.5, 'linear', 5)).toEqual([5, 0.5]);
+    expect(at(null, key(0, 350), key(10, 10), null, 7.5, 'linear', 5)).toEqual([5, 0.5]);
+  });
+
+  it('holds the earlier key in step mode, and after the last key', () => {
+    expect(at(null, key(0, 350), key(10, 10), null, 9.9, 'step', 5)).toEqual([350, 0.5]);
+    expect(at(null, key(0, 350), null, null, 99, 'linear', 5)).toEqual([350, 0.5]);
+  });
+
+  it('passes Catmull-Rom through the keys and follows a steady turn across 0°', () => {
+    const [k0, k1, k2, k3] = [key(0, 340), key(10, 350), key(20, 10), key(30, 20)];
+    expect(at(k0, k1, k2, k3, 10, 'catmullRom', 5)).toEqual([350, 0.5]);
+    expect(at(k0, k1, k2, k3, 20, 'catmullRom', 5)).toEqual([10, 0.5]);
+    expect(at(k0, k1, k2, k3, 15, 'catmullRom', 5)).toEqual([0, 0.5]);
+  });
+
+  it('curves Catmull-Rom between uneven neighbours and keeps radius non-negative', () => {
+    // Angles 0, 0, 10, 30 (p0 = p1 at the start of a track): 0.5·(10·u + 10·u²) at u = 0.5, where linear gives 5
+    expect(at(null, key(0, 0, 0), key(10, 10, 0), key(20, 30, 0), 5, 'catmullRom', 5)).toEqual([3.75, 0]);
+    expect(at(key(0, 0, 1), key(10, 0, 0), key(20, 0, 0), key(30, 0, 1), 15, 'catmullRom', 5)![1]).toBe(0);
+  });
+
+  it('holds within the window in holdWithin mode and hides the person after it', () => {
+    expect(at(null, key(0, 90), key(20, 180), null, 5, 'holdWithin', 5)).toEqual([90, 0.5]);
+    expect(at(null, key(0, 90), key(20, 180), null, 5.1, 'holdWithin', 5)).toBeNull();
+    expect(at(null, key(0, 90), key(20, 180), null, 20, 'holdWithin', 5)).toEqual([180, 0.5]);
+  });
+});
+
+describe('tracks', () => {
+  const track = [key(0, 0), key(10, 90), key(20, 180)];
+
+  it('finds the last key at or before t', () => {
+    expect([-1, 0, 9.9, 10, 25].map((t) => lastIndexAtOrBefore(track, t, (k) => k.t))).toEqual([-1, 0, 0, 1, 2]);
+  });
+
+  it('holds the first key before the track starts and reports the key at or before t', () => {
+    expect(interpolateTrack(track, -5, 'linear', 5)).toEqual({ angleDeg: 0, radiusFactor: 0.5, key: track[0] });
+    expect(interpolateTrack(track, 15, 'linear', 5)).toEqual({ angleDeg: 135, radiusFactor: 0.5, key: track[1] });
+    expect(interpolateTrack([], 0, 'linear', 5)).toBeNull();
+  });
+
+  it('uses per-person modes over the session mode', () => {
+    const settings = { mode: 'linear' as const, holdWithinSec: 5, perPerson: { P2: 'step' as const } };
+    expect(modeForPerson(settings, 'P1')).toBe('linear');
+    expect(modeForPerson(settings, 'P2')).toBe('step');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Interpolation - positions between samples during playback
+ *
+ * One implementation serves both CSV samples and timeline tracks, so angle
+ * wrapping (350° → 10° goes through 0°, not back around) is handled once.
+ *
+ * Modes:
+ * - linear      straight blend, shortest arc for angles
+ * - step        hold each sample until the next one (seated people)
+ * - catmullRom  smooth spline through neighbouring samples, in polar space
+ * - holdWithin  hold each sample for up to N seconds, hide the person after that
+ */
+
+export const INTERPOLATION_MODES = ['linear', 'step', 'catmullRom', 'holdWithin'] as const;
+
+export type InterpolationMode = (typeof INTERPOLATION_MODES)[number];
+
+export const INTERPOLATION_LABELS: Record<InterpolationMode, string> = {
+  linear: 'Linear',
+  step: 'Step / hold',
+  catmullRom: 'Smooth (Catmull-Rom)',
+  holdWithin: 'Hold within N s, else hide',
+};
+
+/**
+ * Session-wide mode, per-person overrides and the holdWithin window
+ */
+export interface InterpolationSettings {
+  mode: InterpolationMode;
+  holdWithinSec: number;
+  perPerson: Record<string, InterpolationMode>;
+}
+
+export const DEFAULT_INTERPOLATION: InterpolationSettings = {
+  mode: 'linear',
+  holdWithinSec: 5,
+  perPerson: {},
+};
+
+export interface PolarKey {
+  t: number;
+  angleDeg: number;
+  radiusFactor: number;
+}
+
+/**
+ * Normalize angle to [0, 360)
+ */
+export const normalizeAngle = (angle: number): number => {
+  const normalized = angle % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+};
+
+/**
+ * Shortest signed angular distance from `from` to `to`, in (-180, 180]
+ */
+export const shortestAngleDist = (from: number, to: number): number => {
+  const diff = normalizeAngle(to - from);
+  return diff > 180 ? diff - 360 : diff;
+};
+
+// Helper: uniform Catmull-Rom between p1 and p2 at u ∈ [0, 1]
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, u: number): number =>
+  0.5 *
+  (2 * p1 +
+    (-p0 + p2) * u +
+    (2 * p0 - 5 * p1 + 4 * p2 - p3) * u * u +
+    (-p0 + 3 * p1 - 3 * p2 + p3) * u * u * u);
+
+/**
+ * Interpolation mode for one person
+ */
+export const modeForPerson = (settings: InterpolationSettings, personId: string): InterpolationMode =>
+  settings.perPerson[personId] ?? settings.mode;
+
+/**
+ * Position at time t between `before` and `after`
+ * `prev` / `next` are the neighbouring keys (only Catmull-Rom uses them).
+ * Returns null when the person should be hidden (holdWithin gap exceeded).
+ */
+export const interpolatePolar = (
+  prev: PolarKey | null,
+  before: PolarKey,
+  after: PolarKey | null,
+  next: PolarKey | null,
+  t: number,
+  mode: InterpolationMode,
+  holdWithinSec: number
+): { angleDeg: number; radiusFactor: number } | null => {
+  if (mode === 'holdWithin') {
+    if (after && t >= after.t) return { angleDeg: after.angleDeg, radiusFactor: after.radiusFactor };
+    return t - before.t <= holdWithinSec ? { angleDeg: before.angleDeg, radiusFactor: before.radiusFactor } : null;
+  }
+
+  if (!after || after.t <= before.t || mode === 'step') {
+    return { angleDeg: before.angleDeg, radiusFactor: before.radiusFactor };
+  }
+
+  const u = Math.min(1, Math.max(0, (t - before.t) / (after.t - before.t)));
+
+  // Unwrap angles around `before` so the blend never crosses the long way round
+  const a1 = before.angleDeg;
+  const a2 = a1 + shortestAngleDist(before.angleDeg, after.angleDeg);
+
+  if (mode === 'catmullRom') {
+    const p0 = prev ?? before;
+    const p3 = next ?? after;
+    const a0 = a1 - shortestAngleDist(p0.angleDeg, before.angleDeg);
+    const a3 = a2 + shortestAngleDist(after.angleDeg, p3.angleDeg);
+    return {
+      angleDeg: normalizeAngle(catmullRom(a0, a1, a2, a3, u)),
+      radiusFactor: Math.max(
+        0,
+        catmullRom(p0.radiusFactor, before.radiusFactor, after.radiusFactor, p3.radiusFactor, u)
+      ),
+    };
+  }
+
+  return {
+    angleDeg: normalizeAngle(a1 + (a2 - a1) * u),
+    radiusFactor: before.radiusFactor + (after.radiusFactor - before.radiusFactor) * u,
+  };
+};
+
+/**
+ * Index of the last item at or before t (items sorted by time), -1 if none
+ */
+export const lastIndexAtOrBefore = <T>(items: T[], t: number, timeOf: (item: T) => number): number => {
+  let lo = 0;
+  let hi = items.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (timeOf(items[mid]) <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Position along a track of keys (e.g. timeline points) at time t
+ * Before the first key the person holds the first position.
+ * Returns null for an empty track or when the mode hides the person;
+ * `key` is the key at or before t (for its action, bench, ...)
+ */
+export const interpolateTrack = <K extends PolarKey>(
+  track: K[],
+  t: number,
+  mode: InterpolationMode,
+  holdWithinSec: number
+): { angleDeg: number; radiusFactor: number; key: K } | null => {
+  if (track.length === 0) return null;
+  const i = Math.max(0, lastIndexAtOrBefore(track, t, (k) => k.t));
+  const position = interpolatePolar(
+    track[i - 1] ?? null,
+    track[i],
+    track[i + 1] ?? null,
+    track[i + 2] ?? null,
+    Math.max(t, track[i].t),
+    mode,
+    holdWithinSec
+  );
+  return position && { ...position, key: track[i] };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { convertMotText, defaultPersonIdForTrack, isMotText, pixelToPolar, type MotCalibration } from './motImport';
+import { parseCSV } from './positionsCsv';
+
+// 640×480 footage with the room centred at (320, 240) and a 200 px rim
+const calibration: MotCalibration = { fps: 10, centerX: 320, centerY: 240, radiusPx: 200 };
+
+const rowsOf = (text: string, options: Partial<MotCalibration> = {}) =>
+  parseCSV(convertMotText(text, { ...calibration, ...options }).csvText).map((r) => r.fields);
+
+describe('pixelToPolar', () => {
+  it('inverts image y so up in the image is 90°', () => {
+    expect(pixelToPolar(420, 240, calibration)).toEqual({ angleDeg: 0, radiusFactor: 0.5 });
+    expect(pixelToPolar(320, 40, calibration)).toEqual({ angleDeg: 90, radiusFactor: 1 });
+    expect(pixelToPolar(220, 240, calibration)).toEqual({ angleDeg: 180, radiusFactor: 0.5 });
+    expect(pixelToPolar(320, 340, calibration)).toEqual({ angleDeg: 270, radiusFactor: 0.5 });
+  });
+
+  it('rotates counter-clockwise and wraps into [0, 360)', () => {
+    expect(pixelToPolar(420, 240, { ...calibration, rotationDeg: 45 }).angleDeg).toBe(45);
+    expect(pixelToPolar(320, 340, { ...calibration, rotationDeg: 135 }).angleDeg).toBe(45);
+  });
+});
+
+describe('convertMotText', () => {
+  it('recognises headerless MOT rows', () => {
+    expect(isMotText('1,1,400,220,40,40,1,-1,-1,-1\n')).toBe(true);
+    expect(isMotText('personId,tSec,angleDeg,radiusFactor\n')).toBe(false);
+  });
+
+  it('turns frames into seconds from the first frame and boxes into their centre', () => {
+    // Box centred at (420, 240): angle 0°, half way to the rim
+    expect(rowsOf('1,1,400,220,40,40,1,-1,-1,-1\n11,1,400,220,40,40,1,-1,-1,-1\n')).toEqual([
+      ['personId', 'tSec', 'angleDeg', 'radiusFactor', 'bench'],
+      ['P01', '0', '0', '0.5', ''],
+      ['P01', '1', '0', '0.5', ''],
+    ]);
+    expect(rowsOf('5,1,400,220,40,40\n', { firstFrame: 3, fps: 4 })[1][1]).toBe('0.5');
+  });
+
+  it('uses the bottom of the box as the position when anchored there', () => {
+    // Bottom centre at (320, 340): straight down, half way to the rim
+    expect(rowsOf('1,1,300,300,40,40\n', { anchor: 'bottom' })[1]).toEqual(['P01', '0', '270', '0.5', '']);
+  });
+
+  it('groups boxes by track, mapping ids to people', () => {
+    const { trackIds } = convertMotText('1,7,0,0,1,1\n1,3,0,0,1,1\n2,7,0,0,1,1\n2,3,0,0,1,1\n', calibration);
+    expect(trackIds).toEqual(['7', '3']);
+    expect(rowsOf('1,7,0,0,1,1\n1,3,0,0,1,1\n', { idMap: { '7': 'Anna' } }).map((r) => r[0])).toEqual([
+      'personId',
+      'Anna',
+      'P03',
+    ]);
+    expect(defaultPersonIdForTrack('12')).toBe('P12');
+    expect(defaultPersonIdForTrack('a')).toBe('a');
+  });
+
+  it('gives people who leave before the last frame an EXIT row one frame later', () => {
+    const text = '1,1,400,220,40,40\n1,2,300,20,40,40\n2,1,400,220,40,40\n3,2,300,20,40,40\n';
+    expect(rowsOf(text)).toEqual([
+      ['personId', 'tSec', 'angleDeg', 'radiusFactor', 'bench'],
+      ['P01', '0', '0', '0.5', ''],
+      ['P02', '0', '90', '1', ''],
+      ['P01', '0.1', '0', '0.5', ''],
+      ['P02', '0.2', '90', '1', ''],
+      ['P01', '0.2', '0', '', 'EXIT'],
+    ]);
+  });
+
+  it('skips short, non-numeric, ignored and early lines', () => {
+    const { skippedRows } = convertMotText('1,1,0,0\nx,1,0,0,1,1\n2,1,0,0,1,1,0\n1,1,0,0,1,1\n3,1,0,0,1,1\n', {
+      ...calibration,
+      firstFrame: 2,
+    });
+    expect(skippedRows).toEqual([
+      { line: 1, reason: '4 fields, expected at least 6' },
+      { line: 2, reason: 'non-numeric frame or box' },
+      { line: 3, reason: 'ignored box (conf 0)' },
+      { line: 4, reason: 'frame 1 before firstFrame 2' },
+    ]);
+  });
+});
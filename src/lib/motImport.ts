@@ -0,0 +1,130 @@
+/**
+ * MOT import - MOTChallenge / CVAT tracking annotations → positions CSV
+ *
+ * MOTChallenge text files have one box per line and no header:
+ *   frame, id, bb_left, bb_top, width, height, conf, x, y, z
+ * Each box is reduced to one point (box centre for overhead footage),
+ * calibrated from image pixels into the room's polar convention and written
+ * as a positions CSV row (personId, tSec, angleDeg, radiusFactor, bench).
+ * A person whose boxes stop before the last annotated frame has left the
+ * footage: they get an EXIT row one frame after their last box.
+ */
+
+import { cartesianToPolar } from './roomGeometry';
+import { parseCSV, serializeCSV } from './positionsCsv';
+
+/**
+ * Frame timing and pixel → room calibration (session.json `mot`)
+ */
+export interface MotCalibration {
+  fps: number; // frames per second of the annotated footage
+  firstFrame?: number; // frame shown at tSec = 0 (default 1, MOT frames are 1-based)
+  centerX: number; // room centre in image pixels
+  centerY: number;
+  radiusPx: number; // room rim radius in image pixels
+  rotationDeg?: number; // added to image angles, counter-clockwise (default 0)
+  anchor?: 'center' | 'bottom'; // point of the box used as position (default centre)
+  idMap?: Record<string, string>; // MOT track id → PersonBase id
+}
+
+export interface MotConversion {
+  csvText: string;
+  skippedRows: { line: number; reason: string }[];
+  trackIds: string[]; // MOT ids found, in order of first appearance
+}
+
+// Minimum columns per MOT line: frame, id, bb_left, bb_top, width, height
+const MOT_MIN_FIELDS = 6;
+
+/**
+ * Default PersonBase id for an unmapped track ("P01" for track 1)
+ */
+export const defaultPersonIdForTrack = (trackId: string): string =>
+  /^\d+$/.test(trackId) ? `P${trackId.padStart(2, '0')}` : trackId;
+
+/**
+ * Whether text looks like a MOTChallenge file (headerless numeric rows)
+ */
+export const isMotText = (text: string): boolean => {
+  const [first] = parseCSV(text);
+  return (
+    first !== undefined &&
+    first.fields.length >= MOT_MIN_FIELDS &&
+    first.fields.slice(0, MOT_MIN_FIELDS).every((f) => f.trim() !== '' && Number.isFinite(Number(f)))
+  );
+};
+
+/**
+ * Image pixel → room polar position (image y points down)
+ */
+export const pixelToPolar = (
+  px: number,
+  py: number,
+  calibration: MotCalibration
+): { angleDeg: number; radiusFactor: number } => {
+  const { centerX, centerY, radiusPx, rotationDeg = 0 } = calibration;
+  const { radius, angleDeg } = cartesianToPolar(px - centerX, centerY - py);
+  return {
+    angleDeg: (((angleDeg + rotationDeg) % 360) + 360) % 360,
+    radiusFactor: radius / radiusPx,
+  };
+};
+
+/**
+ * Convert a MOTChallenge file into positions CSV text
+ * Lines with conf 0 are MOT's "ignore" boxes and are skipped like malformed ones
+ */
+export const convertMotText = (text: string, calibration: MotCalibration): MotConversion => {
+  const { fps, firstFrame = 1, anchor = 'center', idMap = {} } = calibration;
+  const skippedRows: MotConversion['skippedRows'] = [];
+  const trackIds = new Set<string>();
+  const lastSeen = new Map<string, { frame: number; angleDeg: string }>(); // per person id
+  let lastFrame = -Infinity;
+  const rows: string[][] = [['personId', 'tSec', 'angleDeg', 'radiusFactor', 'bench']];
+  const tSecText = (frame: number) => String(Number(((frame - firstFrame) / fps).toFixed(3)));
+
+  for (const { line, fields } of parseCSV(text)) {
+    if (fields.length < MOT_MIN_FIELDS) {
+      skippedRows.push({ line, reason: `${fields.length} fields, expected at least ${MOT_MIN_FIELDS}` });
+      continue;
+    }
+
+    const [frame, left, top, width, height] = [0, 2, 3, 4, 5].map((i) => Number(fields[i]));
+    const trackId = fields[1].trim();
+    if (![frame, left, top, width, height].every(Number.isFinite) || trackId === '') {
+      skippedRows.push({ line, reason: 'non-numeric frame or box' });
+      continue;
+    }
+
+    const conf = fields[6] !== undefined && fields[6].trim() !== '' ? Number(fields[6]) : 1;
+    if (conf === 0) {
+      skippedRows.push({ line, reason: 'ignored box (conf 0)' });
+      continue;
+    }
+
+    if (frame < firstFrame) {
+      skippedRows.push({ line, reason: `frame ${frame} before firstFrame ${firstFrame}` });
+      continue;
+    }
+
+    trackIds.add(trackId);
+
+    const px = left + width / 2;
+    const py = anchor === 'bottom' ? top + height : top + height / 2;
+    const { angleDeg, radiusFactor } = pixelToPolar(px, py, calibration);
+    const personId = idMap[trackId] ?? defaultPersonIdForTrack(trackId);
+    const angleText = String(Number(angleDeg.toFixed(2)));
+
+    rows.push([personId, tSecText(frame), angleText, String(Number(radiusFactor.toFixed(4))), '']);
+    const seen = lastSeen.get(personId);
+    if (!seen || frame >= seen.frame) lastSeen.set(personId, { frame, angleDeg: angleText });
+    lastFrame = Math.max(lastFrame, frame);
+  }
+
+  // Left before the footage ends: out through the rim where last seen
+  lastSeen.forEach(({ frame, angleDeg }, personId) => {
+    if (frame < lastFrame) rows.push([personId, tSecText(frame + 1), angleDeg, '', 'EXIT']);
+  });
+
+  return { csvText: serializeCSV(rows), skippedRows, trackIds: Array.from(trackIds) };
+};
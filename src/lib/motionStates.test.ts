@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMotionTimeline,
+  motionChangeAt,
+  motionTimelineFromSchedule,
+  movingCountAt,
+  sampleMotionStates,
+} from './motionStates';
+import { ROOM } from './roomGeometry';
+
+describe('sampleMotionStates', () => {
+  it('uses the motion column, else the speed towards the next sample', () => {
+    expect(
+      sampleMotionStates([
+        { tSec: 0, angleDeg: 0, radiusFactor: 0.5, motion: 'still' },
+        { tSec: 10, angleDeg: 0, radiusFactor: 0.5 },
+        { tSec: 20, angleDeg: 0, radiusFactor: 0.8 },
+        { tSec: 30, angleDeg: 0, radiusFactor: 0.8, motion: 'walking' },
+        { tSec: 40 },
+      ])
+    ).toEqual(['STILL', 'MOVING', 'STILL', 'STILL', 'STILL']);
+  });
+
+  it('gives the last sample the speed from the one before', () => {
+    expect(
+      sampleMotionStates([
+        { tSec: 0, angleDeg: 0, radiusFactor: 0.2 },
+        { tSec: 10, angleDeg: 0, radiusFactor: 0.8 },
+      ])
+    ).toEqual(['MOVING', 'MOVING']);
+  });
+});
+
+describe('buildMotionTimeline', () => {
+  const timeline = buildMotionTimeline(
+    {
+      P1: [
+        { tSec: 0, motion: 'MOVING' },
+        { tSec: 10, motion: 'MOVING' },
+        { tSec: 20, motion: 'STILL' },
+      ],
+      // Walks out at 10 s and back in at 30 s
+      P2: [
+        { tSec: 5, bench: 'EXIT' },
+        { tSec: 6, angleDeg: 0, radiusFactor: 0.5 },
+        { tSec: 8, angleDeg: 0, radiusFactor: 0.9 },
+        { tSec: 10, angleDeg: 0, radiusFactor: 1.1 },
+        { tSec: 30, angleDeg: 0, radiusFactor: 0.9, motion: 'STILL' },
+      ],
+    },
+    60,
+    ROOM
+  );
+
+  it('keeps only the samples that change state', () => {
+    expect(timeline.changes.P1).toEqual([
+      { tSec: 0, state: 'MOVING' },
+      { tSec: 20, state: 'STILL' },
+    ]);
+  });
+
+  it('leaves people unobserved while they are outside the room', () => {
+    expect(timeline.changes.P2).toEqual([
+      { tSec: 6, state: 'MOVING' },
+      { tSec: 10, state: null },
+      { tSec: 30, state: 'STILL' },
+    ]);
+    expect(motionChangeAt(timeline, 'P2', 5)).toBeNull();
+    expect(motionChangeAt(timeline, 'P2', 40)?.state).toBe('STILL');
+  });
+
+  it('counts people moving at a time, within the session', () => {
+    expect([0, 6, 10, 20, 59].map((t) => movingCountAt(timeline, t))).toEqual([1, 2, 1, 0, 0]);
+    expect(movingCountAt(timeline, 60)).toBeNull();
+    expect(timeline.endSec).toBe(60);
+  });
+});
+
+describe('motionTimelineFromSchedule', () => {
+  it('reads change points from intervals, with people missing from one unobserved', () => {
+    const timeline = motionTimelineFromSchedule([
+      { interval: 'a', tA: 0, tB: 10, STILL: ['P1'], MOVING: ['P2'] },
+      { interval: 'b', tA: 10, tB: 20, STILL: ['P1'], MOVING: [] },
+    ]);
+    expect(timeline.changes).toEqual({
+      P1: [{ tSec: 0, state: 'STILL' }],
+      P2: [
+        { tSec: 0, state: 'MOVING' },
+        { tSec: 10, state: null },
+      ],
+    });
+    expect([0, 10].map((t) => movingCountAt(timeline, t))).toEqual([1, 0]);
+    expect(timeline.endSec).toBe(20);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Motion states - STILL/MOVING over time, per person
+ *
+ * Kept sparse so dense tracker imports stay cheap: each person's change
+ * points, plus a running count of MOVING people, looked up by binary search
+ * at playback time. Built from csvPositions or from a motion_schedule.json
+ * schedule, so either drives the dwell layer and smart speed:
+ * - A sample's state holds from its tSec until the person's next sample
+ * - Outside the room (EXIT rows, beyond the exit radius) a person is
+ *   unobserved (state null), as are people missing from a schedule interval
+ * - The CSV `motion` column is used when present; otherwise the state is
+ *   derived from the speed between the sample and its neighbour
+ */
+
+import { isOutsideSample } from './doorways';
+import { lastIndexAtOrBefore } from './interpolation';
+import { polarToCartesian, type RoomGeometry } from './roomGeometry';
+import type { CSVSample, MotionInterval } from './usePeoplePlaybackStore';
+
+export type MotionState = 'STILL' | 'MOVING';
+
+export interface MotionChange {
+  tSec: number;
+  state: MotionState | null; // null: not observed from tSec on
+}
+
+export interface MovingCount {
+  tSec: number;
+  count: number; // people MOVING from tSec until the next entry
+}
+
+export interface MotionTimeline {
+  changes: Record<string, MotionChange[]>; // per person, ascending
+  moving: MovingCount[]; // ascending, from the session start
+  endSec: number; // states hold until here
+}
+
+// Below this speed (radiusFactor units per second) a person counts as STILL
+const STILL_SPEED_THRESHOLD = 0.005;
+
+// Helper: read the motion column, if it holds a recognised state
+const motionFromColumn = (sample: CSVSample): MotionState | null => {
+  const value = sample.motion?.trim().toUpperCase();
+  return value === 'STILL' || value === 'MOVING' ? value : null;
+};
+
+// Helper: distance between two samples in radiusFactor units (null if either lacks a position)
+const sampleDistance = (a: CSVSample, b: CSVSample): number | null => {
+  if (a.angleDeg === undefined || a.radiusFactor === undefined) return null;
+  if (b.angleDeg === undefined || b.radiusFactor === undefined) return null;
+  const pa = polarToCartesian(0, 0, a.radiusFactor, a.angleDeg);
+  const pb = polarToCartesian(0, 0, b.radiusFactor, b.angleDeg);
+  return Math.hypot(pb.x - pa.x, pb.y - pa.y);
+};
+
+/**
+ * Velocity-derived state of samples[i]: speed towards the next sample
+ * (or from the previous one for the last sample)
+ */
+const motionFromVelocity = (samples: CSVSample[], i: number): MotionState => {
+  const [a, b] = i < samples.length - 1 ? [samples[i], samples[i + 1]] : [samples[i - 1], samples[i]];
+  if (!a || !b || b.tSec <= a.tSec) return 'STILL';
+  const dist = sampleDistance(a, b);
+  if (dist === null) return 'STILL';
+  return dist / (b.tSec - a.tSec) > STILL_SPEED_THRESHOLD ? 'MOVING' : 'STILL';
+};
+
+/**
+ * Motion state for every sample of one person (column first, velocity fallback)
+ */
+export const sampleMotionStates = (samples: CSVSample[]): MotionState[] =>
+  samples.map((sample, i) => motionFromColumn(sample) ?? motionFromVelocity(samples, i));
+
+/**
+ * Per-person STILL/MOVING change points from csvPositions
+ * Each sample's state holds until the person's next sample (the last one
+ * until the session end), so only samples that change state are kept.
+ * Samples outside the room change the state to null (not observed), so
+ * someone who walks out doesn't stay MOVING for the rest of the session.
+ * @param durationSec - Session end; closes the last state
+ */
+export const buildMotionTimeline = (
+  csvPositions: Record<string, CSVSample[]>,
+  durationSec: number,
+  room: RoomGeometry
+): MotionTimeline => {
+  const changes: Record<string, MotionChange[]> = {};
+  let startSec = Infinity;
+  let lastSec = -Infinity;
+
+  Object.entries(csvPositions).forEach(([personId, samples]) => {
+    if (samples.length === 0) return;
+    const states = sampleMotionStates(samples);
+    const personChanges: MotionChange[] = [];
+    samples.forEach((s, i) => {
+      const state = isOutsideSample(s, room) ? null : states[i];
+      const last = personChanges[personChanges.length - 1];
+      if (last ? last.state !== state : state !== null) personChanges.push({ tSec: s.tSec, state });
+    });
+    changes[personId] = personChanges;
+    startSec = Math.min(startSec, samples[0].tSec);
+    lastSec = Math.max(lastSec, samples[samples.length - 1].tSec);
+  });
+
+  if (startSec === Infinity) return { changes, moving: [], endSec: 0 };
+  return { changes, moving: movingCounts(changes, startSec), endSec: Math.max(durationSec, lastSec) };
+};
+
+/**
+ * Per-person change points from a motion_schedule.json schedule
+ * People missing from an interval's lists are unobserved (state null) there.
+ */
+export const motionTimelineFromSchedule = (schedule: MotionInterval[]): MotionTimeline => {
+  const changes: Record<string, MotionChange[]> = {};
+  if (schedule.length === 0) return { changes, moving: [], endSec: 0 };
+
+  const ids = new Set(schedule.flatMap((iv) => [...iv.STILL, ...iv.MOVING]));
+  ids.forEach((personId) => {
+    const personChanges: MotionChange[] = [];
+    schedule.forEach((iv) => {
+      const state = iv.STILL.includes(personId) ? 'STILL' : iv.MOVING.includes(personId) ? 'MOVING' : null;
+      const last = personChanges[personChanges.length - 1];
+      if (last ? last.state !== state : state !== null) personChanges.push({ tSec: iv.tA, state });
+    });
+    changes[personId] = personChanges;
+  });
+
+  return { changes, moving: movingCounts(changes, schedule[0].tA), endSec: schedule[schedule.length - 1].tB };
+};
+
+// Helper: running count of MOVING people from each change time on
+const movingCounts = (changes: Record<string, MotionChange[]>, startSec: number): MovingCount[] => {
+  const deltas = new Map<number, number>([[startSec, 0]]);
+  Object.values(changes).forEach((personChanges) => {
+    personChanges.forEach((c, i) => {
+      const delta = (c.state === 'MOVING' ? 1 : 0) - (personChanges[i - 1]?.state === 'MOVING' ? 1 : 0);
+      if (delta !== 0) deltas.set(c.tSec, (deltas.get(c.tSec) ?? 0) + delta);
+    });
+  });
+
+  let count = 0;
+  return Array.from(deltas.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([tSec, delta]) => ({ tSec, count: (count += delta) }));
+};
+
+/**
+ * The person's latest change point at or before t (null: not observed yet)
+ */
+export const motionChangeAt = (timeline: MotionTimeline, personId: string, t: number): MotionChange | null => {
+  const personChanges = timeline.changes[personId];
+  if (!personChanges) return null;
+  const i = lastIndexAtOrBefore(personChanges, t, (c) => c.tSec);
+  return i >= 0 ? personChanges[i] : null;
+};
+
+/**
+ * Number of people MOVING at t (null outside the session)
+ */
+export const movingCountAt = (timeline: MotionTimeline, t: number): number | null => {
+  if (t >= timeline.endSec) return null;
+  const i = lastIndexAtOrBefore(timeline.moving, t, (m) => m.tSec);
+  return i >= 0 ? timeline.moving[i].count : null;
+};
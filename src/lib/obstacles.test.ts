@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  firstObstacleHit,
+  isInsideObstacle,
+  moveOutOfObstacles,
+  obstacleAt,
+  routeAroundObstacles,
+} from './obstacles';
+import { ROOM, type Obstacle, type RoomGeometry } from './roomGeometry';
+
+const pillar: Obstacle = { id: 'pillar', label: 'Pillar', kind: 'circle', center: { angleDeg: 0, radiusFactor: 0.5 }, radius: 0.1 };
+const kiosk: Obstacle = {
+  id: 'kiosk',
+  label: 'Kiosk',
+  kind: 'polygon',
+  points: [
+    { angleDeg: 80, radiusFactor: 0.4 },
+    { angleDeg: 100, radiusFactor: 0.4 },
+    { angleDeg: 100, radiusFactor: 0.6 },
+    { angleDeg: 80, radiusFactor: 0.6 },
+  ],
+};
+const room: RoomGeometry = { ...ROOM, obstacles: [pillar, kiosk] };
+
+describe('isInsideObstacle', () => {
+  it('tests circles and polygons in room space', () => {
+    expect(isInsideObstacle({ angleDeg: 5, radiusFactor: 0.5 }, pillar)).toBe(true);
+    expect(isInsideObstacle({ angleDeg: 0, radiusFactor: 0.65 }, pillar)).toBe(false);
+    expect(isInsideObstacle({ angleDeg: 90, radiusFactor: 0.5 }, kiosk)).toBe(true);
+    expect(isInsideObstacle({ angleDeg: 90, radiusFactor: 0.7 }, kiosk)).toBe(false);
+    expect(obstacleAt({ angleDeg: 180, radiusFactor: 0.5 }, room)).toBeNull();
+  });
+});
+
+describe('firstObstacleHit', () => {
+  it('finds where a straight walk goes into and out of an obstacle', () => {
+    const hit = firstObstacleHit({ angleDeg: 0, radiusFactor: 0.2 }, { angleDeg: 0, radiusFactor: 0.8 }, room)!;
+    expect(hit.obstacle.id).toBe('pillar');
+    expect(hit.u).toBeCloseTo(1 / 3, 1);
+    expect(hit.exitU).toBeCloseTo(2 / 3, 1);
+    expect(hit.midpoint.radiusFactor).toBeCloseTo(0.5, 1);
+  });
+
+  it('returns null for a clear way or a room without obstacles', () => {
+    expect(firstObstacleHit({ angleDeg: 180, radiusFactor: 0.2 }, { angleDeg: 180, radiusFactor: 0.8 }, room)).toBeNull();
+    expect(firstObstacleHit({ angleDeg: 0, radiusFactor: 0.2 }, { angleDeg: 0, radiusFactor: 0.8 }, ROOM)).toBeNull();
+  });
+});
+
+describe('moveOutOfObstacles', () => {
+  it('moves a point inside an obstacle just clear of it and leaves others alone', () => {
+    const inside = { angleDeg: 0, radiusFactor: 0.5 };
+    const moved = moveOutOfObstacles(inside, room);
+    expect(obstacleAt(moved, room)).toBeNull();
+    expect(moved.radiusFactor).toBeLessThan(1);
+    const clear = { angleDeg: 180, radiusFactor: 0.5 };
+    expect(moveOutOfObstacles(clear, room)).toBe(clear);
+  });
+});
+
+describe('routeAroundObstacles', () => {
+  it('adds waypoints so no leg crosses an obstacle, keeping times in order', () => {
+    const track = [
+      { t: 0, angleDeg: 0, radiusFactor: 0.2, id: 'a' },
+      { t: 10, angleDeg: 0, radiusFactor: 0.8, id: 'b' },
+      { t: 20, angleDeg: 90, radiusFactor: 0.3, id: 'c' },
+      { t: 30, angleDeg: 90, radiusFactor: 0.5, id: 'd' }, // inside the kiosk
+    ];
+    const routed = routeAroundObstacles(track, room);
+
+    expect(routed.length).toBeGreaterThan(track.length);
+    // Waypoints carry the fields of the key they leave from
+    expect(routed.map((k) => k.id).filter((id, i, ids) => id !== ids[i - 1])).toEqual(['a', 'b', 'c', 'd']);
+    routed.forEach((k, i) => {
+      expect(obstacleAt(k, room)).toBeNull();
+      if (i === 0) return;
+      expect(k.t).toBeGreaterThanOrEqual(routed[i - 1].t);
+      expect(firstObstacleHit(routed[i - 1], k, room)).toBeNull();
+    });
+  });
+
+  it('returns the track itself when the room has no obstacles', () => {
+    const track = [{ t: 0, angleDeg: 0, radiusFactor: 0.2 }];
+    expect(routeAroundObstacles(track, ROOM)).toBe(track);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Obstacles - pillars, ticket machines, bins and other fixed furniture
+ *
+ * Obstacles are defined in the room's polar convention (angleDeg,
+ * radiusFactor) and tested in unit room space: x = r·cos, y = r·sin with the
+ * rim at distance 1. Nobody can stand inside an obstacle or walk through one.
+ * Movement between two samples is checked along the same path playback
+ * draws (linear in angle and radius, shortest way round).
+ */
+
+import { polarToCartesian, type Obstacle, type PolarPoint, type RoomGeometry } from './roomGeometry';
+import { normalizeAngle, shortestAngleDist } from './interpolation';
+
+// Steps per radiusFactor unit when walking a segment (6 cm in the 6 m built-in room)
+const SEGMENT_STEPS_PER_UNIT = 100;
+
+// Clearance kept around obstacles when moving points out of them
+const CLEARANCE = 0.02;
+
+// Deepest detour recursion when routing a track around obstacles
+const MAX_DETOUR_DEPTH = 4;
+
+type UnitPoint = { x: number; y: number };
+
+// Helper: polar point → unit room space
+const toUnit = ({ angleDeg, radiusFactor }: PolarPoint): UnitPoint => {
+  const rad = (angleDeg * Math.PI) / 180;
+  return { x: radiusFactor * Math.cos(rad), y: radiusFactor * Math.sin(rad) };
+};
+
+// Helper: unit room space → polar point
+const fromUnit = ({ x, y }: UnitPoint): PolarPoint => ({
+  angleDeg: normalizeAngle((Math.atan2(y, x) * 180) / Math.PI),
+  radiusFactor: Math.hypot(x, y),
+});
+
+// Helper: even-odd point-in-polygon test
+const inPolygon = (p: UnitPoint, polygon: UnitPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Whether a position lies inside an obstacle
+ */
+export const isInsideObstacle = (point: PolarPoint, obstacle: Obstacle): boolean => {
+  const p = toUnit(point);
+  if (obstacle.kind === 'circle') {
+    const c = toUnit(obstacle.center);
+    return Math.hypot(p.x - c.x, p.y - c.y) < obstacle.radius;
+  }
+  return inPolygon(p, obstacle.points.map(toUnit));
+};
+
+/**
+ * Obstacle containing a position, if any
+ */
+export const obstacleAt = (point: PolarPoint, room: RoomGeometry): Obstacle | null =>
+  room.obstacles.find((o) => isInsideObstacle(point, o)) ?? null;
+
+/**
+ * First obstacle on the way from `from` to `to`, null when the way is clear
+ * u and exitU are the fractions of the way (0–1) where the path goes into
+ * and back out of it; midpoint lies halfway between the two.
+ */
+export const firstObstacleHit = (
+  from: PolarPoint,
+  to: PolarPoint,
+  room: RoomGeometry
+): { obstacle: Obstacle; u: number; exitU: number; midpoint: PolarPoint } | null => {
+  if (room.obstacles.length === 0) return null;
+  const dAngle = shortestAngleDist(from.angleDeg, to.angleDeg);
+  const a = toUnit(from);
+  const b = toUnit(to);
+  const steps = Math.max(2, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) * SEGMENT_STEPS_PER_UNIT));
+  const pointAt = (u: number): PolarPoint => ({
+    angleDeg: normalizeAngle(from.angleDeg + dAngle * u),
+    radiusFactor: from.radiusFactor + (to.radiusFactor - from.radiusFactor) * u,
+  });
+
+  for (let i = 0; i <= steps; i++) {
+    const obstacle = obstacleAt(pointAt(i / steps), room);
+    if (!obstacle) continue;
+    let j = i;
+    while (j < steps && isInsideObstacle(pointAt((j + 1) / steps), obstacle)) j++;
+    const u = i / steps;
+    const exitU = j / steps;
+    return { obstacle, u, exitU, midpoint: pointAt((u + exitU) / 2) };
+  }
+  return null;
+};
+
+// Helper: nearest position in the room to `point` that `accept`s, searching outwards in unit
+// room space in steps of the clearance, then one more step the same way when that is accepted
+// too, so the result isn't right on an obstacle's edge (null if there is none)
+const searchOutwards = (point: PolarPoint, accept: (candidate: PolarPoint) => boolean): PolarPoint | null => {
+  const p = toUnit(point);
+  const directions = 32;
+  const at = (dist: number, theta: number) => fromUnit({ x: p.x + dist * Math.cos(theta), y: p.y + dist * Math.sin(theta) });
+  const fits = (candidate: PolarPoint) => candidate.radiusFactor <= 1 && accept(candidate);
+  for (let dist = CLEARANCE; dist <= 1; dist += CLEARANCE) {
+    for (let k = 0; k < directions; k++) {
+      const theta = (2 * Math.PI * k) / directions;
+      const candidate = at(dist, theta);
+      if (!fits(candidate)) continue;
+      const further = at(dist + CLEARANCE, theta);
+      return fits(further) ? further : candidate;
+    }
+  }
+  return null;
+};
+
+// Helper: straight-line distance in unit room space
+const unitDist = (a: PolarPoint, b: PolarPoint): number => {
+  const pa = toUnit(a);
+  const pb = toUnit(b);
+  return Math.hypot(pb.x - pa.x, pb.y - pa.y);
+};
+
+/**
+ * Nearest position outside every obstacle (the position itself when clear)
+ * Searches outwards in unit room space, keeping a small clearance.
+ */
+export const moveOutOfObstacles = (point: PolarPoint, room: RoomGeometry): PolarPoint => {
+  if (!obstacleAt(point, room)) return point;
+  return searchOutwards(point, (candidate) => !obstacleAt(candidate, room)) ?? point;
+};
+
+/**
+ * Insert detour keys so a generated track never passes through an obstacle
+ * Keys inside an obstacle are moved out; a segment that crosses one gets a
+ * waypoint near the middle of the crossing with a clear way to and from it
+ * (or just outside the obstacle, detouring again from there), timed so the
+ * pace along the detour stays even.
+ */
+export const routeAroundObstacles = <K extends PolarPoint & { t: number }>(track: K[], room: RoomGeometry): K[] => {
+  if (room.obstacles.length === 0) return track;
+
+  const detour = (from: K, to: K, depth: number): K[] => {
+    const hit = depth < MAX_DETOUR_DEPTH ? firstObstacleHit(from, to, room) : null;
+    if (!hit) return [to];
+    const isClear = (a: PolarPoint, b: PolarPoint) => !firstObstacleHit(a, b, room);
+    const around = searchOutwards(
+      hit.midpoint,
+      (candidate) => !obstacleAt(candidate, room) && isClear(from, candidate) && isClear(candidate, to)
+    );
+    const point = around ?? moveOutOfObstacles(hit.midpoint, room);
+    const toPoint = unitDist(from, point);
+    const share = toPoint / (toPoint + unitDist(point, to) || 1);
+    const waypoint: K = { ...from, ...point, t: from.t + (to.t - from.t) * share };
+    if (around) return [waypoint, to];
+    return [...detour(from, waypoint, depth + 1), ...detour(waypoint, to, depth + 1)];
+  };
+
+  const clear = track.map((key) => ({ ...key, ...moveOutOfObstacles(key, room) }));
+  return clear.flatMap((key, i) => (i === 0 ? [key] : detour(clear[i - 1], key, 0)));
+};
+
+/**
+ * SVG path of an obstacle on a grid of the given centre and rim radius
+ */
+export const obstaclePath = (obstacle: Obstacle, center: number, maxRadius: number): string => {
+  if (obstacle.kind === 'circle') {
+    const c = polarToCartesian(center, center, maxRadius * obstacle.center.radiusFactor, obstacle.center.angleDeg);
+    const r = maxRadius * obstacle.radius;
+    return `M ${c.x - r} ${c.y} a ${r} ${r} 0 1 0 ${2 * r} 0 a ${r} ${r} 0 1 0 ${-2 * r} 0 Z`;
+  }
+  return (
+    obstacle.points
+      .map((p, i) => {
+        const { x, y } = polarToCartesian(center, center, maxRadius * p.radiusFactor, p.angleDeg);
+        return `${i === 0 ? 'M' : 'L'} ${x} ${y}`;
+      })
+      .join(' ') + ' Z'
+  );
+};
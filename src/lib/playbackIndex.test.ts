@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildPlaybackIndex, sampleIndexAt, sampleKeyAt } from './playbackIndex';
+import { ROOM, type RoomGeometry } from './roomGeometry';
+
+const room: RoomGeometry = {
+  ...ROOM,
+  doorways: [...ROOM.doorways, { id: 'W', label: 'West', startDeg: 170, endDeg: 190 }],
+};
+
+const csvPositions = {
+  // There from the session start; out through W and back in through E1
+  P1: [
+    { tSec: 0, angleDeg: 90, radiusFactor: 0.5 },
+    { tSec: 10, angleDeg: 180, radiusFactor: 0.9 },
+    { tSec: 20, angleDeg: 180, radiusFactor: 1.1 },
+    { tSec: 30, angleDeg: 5, radiusFactor: 1.1 },
+    { tSec: 40, angleDeg: 5, radiusFactor: 0.8 },
+    { tSec: 50 },
+  ],
+  // First sample after the session start: came in
+  P2: [{ tSec: 15, angleDeg: 185, radiusFactor: 0.95 }],
+  P3: [],
+};
+
+const index = buildPlaybackIndex(csvPositions, room);
+const [p1, p2] = index.people;
+
+describe('buildPlaybackIndex', () => {
+  it('leaves out people without samples', () => {
+    expect(index.people.map((p) => p.personId)).toEqual(['P1', 'P2']);
+  });
+
+  it('finds stays and the doorway each came through', () => {
+    expect(p1.stayStart).toEqual([0, 0, -1, -1, 4, 4]);
+    expect(p1.enteredVia[0]).toBeUndefined();
+    expect(p1.enteredVia[4]).toBe('E1');
+    expect(p2.enteredVia[0]).toBe('W');
+  });
+
+  it('routes the walk out to the doorway', () => {
+    expect(p1.exitedVia[1]).toBe('W');
+    expect(p1.exitRoute[1]).toEqual([
+      { t: 10, angleDeg: 180, radiusFactor: 0.9 },
+      { t: 20, angleDeg: 180, radiusFactor: 1 },
+    ]);
+    expect(p1.exitedVia[0]).toBeUndefined();
+  });
+
+  it('keeps positioned samples as the path', () => {
+    expect(p1.path).toHaveLength(5);
+    expect(p1.pathCount).toEqual([1, 2, 3, 4, 5, 5]);
+    expect(sampleKeyAt(p1, 1)).toBe(p1.path[1]);
+    expect(sampleKeyAt(p1, 5)).toBeNull();
+    expect(sampleKeyAt(p1, 6)).toBeNull();
+  });
+});
+
+describe('playback lookups', () => {
+  it('finds the last sample at or before t, sequentially and after seeks', () => {
+    const expected = (t: number) => csvPositions.P1.filter((s) => s.tSec <= t).length - 1;
+    for (const t of [-1, 0, 5, 10, 12, 49, 50, 70, 25, 3, 41, -5]) {
+      expect(sampleIndexAt(p1, t)).toBe(expected(t));
+    }
+  });
+
+  it('measures the path travelled by t as a count into the one shared path', () => {
+    const travelled = (t: number) => {
+      const i = sampleIndexAt(p1, t);
+      return i < 0 ? 0 : p1.pathCount[i];
+    };
+    expect([-1, 0, 12, 25, 70].map(travelled)).toEqual([0, 1, 2, 3, 5]);
+  });
+});
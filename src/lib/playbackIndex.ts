@@ -0,0 +1,142 @@
+/**
+ * Playback index - per-person lookups that keep computePeopleAtTime cheap on
+ * large sessions
+ *
+ * Built once per csvPositions and room: where each stay in the room starts
+ * and which doorway it came through, the walk out to the doorway before an
+ * outside sample (routed around obstacles), and each person's positioned
+ * path. The index itself never changes, so a person's path is handed out as
+ * their path history as is, with the number of points travelled so far
+ * (pathCount). At play time a per-person cursor, kept beside the index
+ * rather than in it, remembers the last bracketing sample, so sequential
+ * frames find the next one without searching (seeks fall back to binary
+ * search).
+ */
+
+import { doorwayCrossingAngle, isEntrySample, isOutsideSample, nearestDoorway, sessionStartSec } from './doorways';
+import { lastIndexAtOrBefore, type PolarKey } from './interpolation';
+import { routeAroundObstacles } from './obstacles';
+import type { RoomGeometry } from './roomGeometry';
+import type { CSVSample, PersonState } from './usePeoplePlaybackStore';
+
+export type PathPoint = PersonState['pathHistory'][number];
+
+export interface PersonPlaybackIndex {
+  personId: string;
+  samples: CSVSample[];
+  stayStart: number[]; // first sample of the stay in the room containing sample i (-1 when outside)
+  enteredVia: (string | undefined)[]; // per stay start: doorway id, unset if present from the session start
+  exitedVia: (string | undefined)[]; // per sample followed by an outside one: doorway id
+  exitRoute: (PolarKey[] | undefined)[]; // per such sample: keys from it to the doorway, clear of obstacles
+  path: readonly PathPoint[]; // positioned samples, in time order (never mutated once built)
+  pathCount: number[]; // path points among samples 0..i
+}
+
+export interface PlaybackIndex {
+  people: PersonPlaybackIndex[];
+}
+
+// Where a person's playback got to on the last frame
+interface PlaybackCursor {
+  sample: number; // last sample index found (-1: before the first sample)
+}
+
+// Cursors by person index, outside the index (and so outside store state)
+const cursors = new WeakMap<PersonPlaybackIndex, PlaybackCursor>();
+
+// Helper: a person's cursor, starting before the first sample
+const cursorOf = (person: PersonPlaybackIndex): PlaybackCursor => {
+  let cursor = cursors.get(person);
+  if (!cursor) {
+    cursor = { sample: -1 };
+    cursors.set(person, cursor);
+  }
+  return cursor;
+};
+
+/**
+ * Index every person in csvPositions (people without samples are left out)
+ */
+export const buildPlaybackIndex = (csvPositions: Record<string, CSVSample[]>, room: RoomGeometry): PlaybackIndex => {
+  const startSec = sessionStartSec(csvPositions);
+
+  const people = Object.entries(csvPositions)
+    .filter(([, samples]) => samples && samples.length > 0)
+    .map(([personId, samples]): PersonPlaybackIndex => {
+      const stayStart: number[] = [];
+      const enteredVia: (string | undefined)[] = [];
+      const exitedVia: (string | undefined)[] = [];
+      const exitRoute: (PolarKey[] | undefined)[] = [];
+      const path: PathPoint[] = [];
+      const pathCount: number[] = [];
+
+      samples.forEach((s, i) => {
+        if (isOutsideSample(s, room)) {
+          stayStart.push(-1);
+        } else if (i > 0 && stayStart[i - 1] >= 0) {
+          stayStart.push(stayStart[i - 1]);
+        } else {
+          // Start of a stay: an entry unless the person was there from the session start
+          stayStart.push(i);
+          enteredVia[i] = isEntrySample(samples, i, room, startSec)
+            ? nearestDoorway(samples[i - 1]?.angleDeg ?? s.angleDeg, room)?.id
+            : undefined;
+        }
+
+        // Exit: the next sample is outside, so the person walks to the doorway instead of to it
+        const next = samples[i + 1];
+        const exitDoorway =
+          stayStart[i] >= 0 && next && isOutsideSample(next, room) ? nearestDoorway(next.angleDeg ?? s.angleDeg, room) : null;
+        if (exitDoorway) {
+          exitedVia[i] = exitDoorway.id;
+          if (s.angleDeg !== undefined && s.radiusFactor !== undefined) {
+            const doorKey = {
+              t: next.tSec,
+              angleDeg: doorwayCrossingAngle(exitDoorway, s.angleDeg),
+              radiusFactor: room.exitRadiusFactor,
+            };
+            exitRoute[i] = routeAroundObstacles([{ t: s.tSec, angleDeg: s.angleDeg, radiusFactor: s.radiusFactor }, doorKey], room);
+          }
+        }
+
+        if (s.angleDeg !== undefined && s.radiusFactor !== undefined) {
+          path.push({ angleDeg: s.angleDeg, radiusFactor: s.radiusFactor, t: s.tSec });
+        }
+        pathCount.push(path.length);
+      });
+
+      return { personId, samples, stayStart, enteredVia, exitedVia, exitRoute, path, pathCount };
+    });
+
+  return { people };
+};
+
+// Helper: whether sample i is the last at or before t (-1: t is before the first sample)
+const brackets = (samples: CSVSample[], i: number, t: number): boolean =>
+  i >= -1 &&
+  i < samples.length &&
+  (i < 0 || samples[i].tSec <= t) &&
+  (i + 1 === samples.length || t < samples[i + 1].tSec);
+
+/**
+ * Index of the person's last sample at or before t, -1 if none
+ * Checks the cursor and its neighbours before searching, and moves the cursor.
+ */
+export const sampleIndexAt = (person: PersonPlaybackIndex, t: number): number => {
+  const { samples } = person;
+  const cursor = cursorOf(person);
+  const i = cursor.sample;
+  if (brackets(samples, i, t)) return i;
+  if (brackets(samples, i + 1, t)) return (cursor.sample = i + 1);
+  if (brackets(samples, i - 1, t)) return (cursor.sample = i - 1);
+  return (cursor.sample = lastIndexAtOrBefore(samples, t, (s) => s.tSec));
+};
+
+/**
+ * Interpolation key of sample i (its path point, so nothing is allocated per
+ * frame), null when it has no position or there is no sample i
+ */
+export const sampleKeyAt = (person: PersonPlaybackIndex, i: number): PolarKey | null => {
+  const s = person.samples[i];
+  return s && s.angleDeg !== undefined && s.radiusFactor !== undefined ? person.path[person.pathCount[i] - 1] : null;
+};
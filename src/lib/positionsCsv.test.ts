@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV, parsePositionsCSV, reportHasIssues, resolveHeaders, serializeCSV } from './positionsCsv';
+import { ROOM } from './roomGeometry';
+
+const parse = (csv: string, clockOriginSec: number | null = null) =>
+  parsePositionsCSV(csv, { room: ROOM, clockOriginSec });
+
+const times = (csv: string, clockOriginSec: number | null = null) =>
+  parse(csv, clockOriginSec).csvPositions.P1.map((s) => s.tSec);
+
+describe('parseCSV', () => {
+  it('reads quoted commas, escaped quotes and line breaks', () => {
+    const records = parseCSV('a,b,c\n1,"x, y","say ""hi""\nthere"\n');
+    expect(records).toEqual([
+      { line: 1, fields: ['a', 'b', 'c'] },
+      { line: 2, fields: ['1', 'x, y', 'say "hi"\nthere'] },
+    ]);
+  });
+
+  it('accepts CRLF, LF and lone CR, strips a BOM and drops blank lines', () => {
+    const records = parseCSV('﻿h1,h2\r\n1,2\r\n\n3,4\r5,6');
+    expect(records.map((r) => r.fields)).toEqual([['h1', 'h2'], ['1', '2'], ['3', '4'], ['5', '6']]);
+    expect(records.map((r) => r.line)).toEqual([1, 2, 4, 5]);
+  });
+
+  it('runs a quote left open at the end of the text to the end, noting where it opened', () => {
+    expect(parseCSV('a,b\n1,"x\n2,3\n')).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 2, fields: ['1', 'x\n2,3\n'], openQuoteLine: 2 },
+    ]);
+    expect(parseCSV('"')).toEqual([{ line: 1, fields: [''], openQuoteLine: 1 }]);
+  });
+
+  it('keeps a trailing empty field', () => {
+    expect(parseCSV('a,')[0].fields).toEqual(['a', '']);
+  });
+
+  it('round-trips through serializeCSV', () => {
+    const rows = [['id', 'notes'], ['P1', 'a, "quoted"\nline']];
+    expect(parseCSV(serializeCSV(rows)).map((r) => r.fields)).toEqual(rows);
+  });
+});
+
+describe('resolveHeaders', () => {
+  it('maps aliases regardless of case and punctuation', () => {
+    const { columns, unmapped } = resolveHeaders(['Person', 'T', 'Angle (deg)', 'RF', 'Bench', 'Comment', 'State', 'Extra']);
+    expect(columns).toEqual({ personId: 0, tSec: 1, angleDeg: 2, radiusFactor: 3, bench: 4, notes: 5, motion: 6 });
+    expect(unmapped).toEqual(['Extra']);
+  });
+});
+
+describe('parsePositionsCSV', () => {
+  it('builds per-person samples sorted by time', () => {
+    const { csvPositions, durationSec, sampleStepSec, report } = parse(
+      'personId,tSec,angleDeg,radiusFactor,bench,notes,motion\n' +
+        'P1,10,370,0.5,,hello,MOVING\n' +
+        'P1,0,-10,0.4,,,STILL\n' +
+        'P2,2.5,90,,T2,,\n'
+    );
+    expect(csvPositions.P1).toEqual([
+      { tSec: 0, line: 3, angleDeg: 350, radiusFactor: 0.4, motion: 'STILL' },
+      { tSec: 10, line: 2, angleDeg: 10, radiusFactor: 0.5, notes: 'hello', motion: 'MOVING' },
+    ]);
+    // Seated without a radius: on the bench
+    expect(csvPositions.P2[0]).toMatchObject({ bench: 'T2', radiusFactor: 0.92 });
+    expect(durationSec).toBe(10);
+    expect(sampleStepSec).toBe(10);
+    expect(report.acceptedRows).toBe(3);
+  });
+
+  it('reports skipped, non-numeric, unknown-bench and duplicate rows', () => {
+    const { csvPositions, report } = parse(
+      'personId,tSec,angleDeg,radiusFactor,bench\n' +
+        'P1,0,10,0.5,,extra\n' +
+        ',1,10,0.5,\n' +
+        'P1,,10,0.5,\n' +
+        'P1,soon,10,0.5,\n' +
+        'P1,2,ten,0.5,\n' +
+        'P1,3,10,0.5,Z9\n' +
+        'P1,3,20,0.5,\n'
+    );
+    expect(report.totalRows).toBe(7);
+    expect(report.skippedRows.map((r) => r.line)).toEqual([2, 3, 4, 5]);
+    expect(report.skippedRows[3].reason).toBe('unrecognized time "soon"');
+    expect(report.nonNumeric).toEqual([{ line: 6, column: 'angleDeg', value: 'ten' }]);
+    expect(report.unknownBenches).toEqual([{ line: 7, bench: 'Z9' }]);
+    expect(report.duplicates).toEqual([{ line: 8, firstLine: 7, personId: 'P1', tSec: 3 }]);
+    expect(report.acceptedRows).toBe(2);
+    expect(csvPositions.P1.map((s) => s.angleDeg)).toEqual([undefined, 10]);
+  });
+
+  it('reports a quoted field left open at the end of the file', () => {
+    const { csvPositions, report } = parse('personId,tSec,notes\nP1,0,ok\nP1,1,"oops\nP1,2,lost\n');
+    expect(report.unterminatedQuote).toEqual({ line: 3 });
+    expect(reportHasIssues(report)).toBe(true);
+    expect(csvPositions.P1.map((s) => s.notes)).toEqual(['ok', 'oops\nP1,2,lost']);
+    expect(parse('personId,tSec\nP1,0\n').report.unterminatedQuote).toBeNull();
+  });
+
+  it('returns an empty result for empty text', () => {
+    expect(parse('')).toMatchObject({ csvPositions: {}, durationSec: 0, sampleStepSec: 1 });
+  });
+});
+
+describe('parsePositionsCSV timestamps', () => {
+  it('measures clock times from the earliest one', () => {
+    expect(times('personId,time\nP1,16:56:10\nP1,16:56:00.5\nP1,4:57 PM')).toEqual([0, 9.5, 59.5]);
+  });
+
+  it('keeps the wall-clock text on each sample', () => {
+    expect(parse('personId,time\nP1,16:56:10').csvPositions.P1[0].time).toBe('16:56:10');
+  });
+
+  it('measures clock times from the manifest start time when given', () => {
+    expect(times('personId,time\nP1,16:56:10', 16 * 3600 + 56 * 60)).toEqual([10]);
+  });
+
+  it('folds 12-hour readings without AM/PM onto the afternoon session', () => {
+    expect(times('personId,time\nP1,16:56:00\nP1,4:57:00', 16 * 3600 + 56 * 60)).toEqual([0, 60]);
+  });
+
+  it('prefers tSec over time, and uses time when tSec is empty', () => {
+    expect(times('personId,tSec,time\nP1,5,16:56:00\nP1,,16:56:20', 16 * 3600 + 56 * 60)).toEqual([5, 20]);
+  });
+
+  it('measures ISO datetimes from the earliest one without a manifest', () => {
+    expect(times('personId,time\nP1,2025-01-10T16:56:20Z\nP1,2025-01-10T16:56:10Z')).toEqual([0, 10]);
+  });
+
+  it('measures ISO datetimes from the manifest start time, like clock times', () => {
+    const csv = 'personId,time\nP1,2025-01-10T16:56:10-05:00\nP1,2025-01-10T16:56:20-05:00';
+    expect(times(csv, 16 * 3600 + 56 * 60)).toEqual([10, 20]);
+    expect(parse(csv).csvPositions.P1[0].time).toBe('16:56:10');
+  });
+
+  it('puts clock times and ISO datetimes on one origin', () => {
+    expect(times('personId,time\nP1,16:56:05\nP1,2025-01-10T16:56:10Z')).toEqual([0, 5]);
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * Positions CSV ingest
+ * RFC 4180 parsing, header aliasing and row validation for positions.csv
+ *
+ * Every problem found while reading a file is collected in a CSVImportReport
+ * so observers can fix their field files instead of losing rows silently.
+ *
+ * Sample times may be seconds (fractional allowed), clock times
+ * ("4:56:03.250") or ISO 8601 datetimes. Absolute times are normalized
+ * against the session origin (manifest start time, else the earliest sample).
+ */
+
+import { getActiveRoom, type RoomGeometry } from './roomGeometry';
+import { parseClockTime, parseTimestamp, type Timestamp } from './sessionClock';
+import { normalizeAngle } from './interpolation';
+import type { CSVSample } from './usePeoplePlaybackStore';
+
+export interface CSVRecord {
+  line: number; // 1-based line where the record starts
+  fields: string[];
+  openQuoteLine?: number; // line where a quoted field opened that was still open at the end of the text
+}
+
+export interface CSVImportReport {
+  totalRows: number;
+  acceptedRows: number;
+  unmappedHeaders: string[];
+  skippedRows: { line: number; reason: string }[];
+  nonNumeric: { line: number; column: string; value: string }[];
+  unknownBenches: { line: number; bench: string }[];
+  duplicates: { line: number; firstLine: number; personId: string; tSec: number }[];
+  unterminatedQuote: { line: number } | null; // quoted field never closed (taken up to the end of the file)
+}
+
+export interface PositionsParseOptions {
+  clockOriginSec?: number | null; // wall-clock seconds since midnight at tSec = 0
+  room?: RoomGeometry; // bench whitelist (defaults to the active room)
+}
+
+export interface ParsedPositions {
+  csvPositions: Record<string, CSVSample[]>;
+  durationSec: number;
+  sampleStepSec: number; // smallest gap between a person's consecutive samples (1 if unknown)
+  report: CSVImportReport;
+}
+
+type CanonicalColumn =
+  | 'personId'
+  | 'time'
+  | 'tSec'
+  | 'angleDeg'
+  | 'radiusFactor'
+  | 'bench'
+  | 'notes'
+  | 'motion';
+
+// Header aliases, compared after lowercasing and stripping non-alphanumerics
+const HEADER_ALIASES: Record<CanonicalColumn, string[]> = {
+  personId: ['personid', 'person', 'pid', 'id'],
+  time: ['time', 'clock', 'clocktime', 'walltime'],
+  tSec: ['tsec', 't', 'sec', 'seconds', 'elapsed', 'elapsedsec', 'timesec'],
+  angleDeg: ['angledeg', 'angle', 'deg', 'degrees', 'theta'],
+  radiusFactor: ['radiusfactor', 'radius', 'rf', 'r'],
+  bench: ['bench', 'benchid', 'seat'],
+  notes: ['notes', 'note', 'words', 'comment', 'comments'],
+  motion: ['motion', 'motionstate', 'state'],
+};
+
+// Bench codes accepted in the bench column besides the room's benches
+const SPECIAL_BENCH_CODES = ['EXIT'];
+
+// Default radiusFactor for seated samples without an explicit radius
+const SEATED_RADIUS_FACTOR = 0.92;
+
+// Helper: strict numeric parse (empty and partially numeric strings are NaN)
+const toNumber = (value: string): number => (value.trim() === '' ? NaN : Number(value));
+
+// Helper: wall-clock part of a clock or ISO timestamp ("16:56:03.250")
+const wallClockText = (stamp: Timestamp, raw: string): string | undefined => {
+  if (stamp.kind === 'iso') return stamp.wall;
+  if (stamp.kind === 'clock') return raw;
+  return undefined;
+};
+
+/**
+ * Seconds between a clock time and the origin, wrapped past midnight.
+ * Clock times without AM/PM may be 12-hour readings ("4:56" for 4:56 PM),
+ * so offsets of 12h or more fold back (sessions are assumed shorter than 12h).
+ */
+const clockOffsetSec = (secOfDay: number, originSec: number, raw: string): number => {
+  let rel = (((secOfDay - originSec) % 86400) + 86400) % 86400;
+  if (rel >= 43200 && !/[ap]m$/i.test(raw.trim()) && secOfDay < 13 * 3600) rel -= 43200;
+  return rel;
+};
+
+/**
+ * Visit CSV records one at a time, following RFC 4180
+ * - Quoted fields may contain commas, quotes ("" escape) and line breaks
+ * - CRLF, LF and lone CR line endings are accepted
+ * - A leading UTF-8 BOM is stripped
+ * - Blank lines are dropped
+ * - A quoted field still open at the end of the text runs to the end; its
+ *   record carries the line where the quote opened (openQuoteLine)
+ * Nothing is kept between records, so large files can be read in passes;
+ * returning false from `visit` stops the scan.
+ */
+export const forEachCSVRecord = (text: string, visit: (record: CSVRecord) => boolean | void): void => {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  let stopped = false;
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endRecord = (openQuoteLine?: number) => {
+    fields.push(field);
+    // Skip blank lines (a single empty field), but not an open quote
+    if (openQuoteLine !== undefined) {
+      visit({ line: recordLine, fields, openQuoteLine });
+    } else if (!(fields.length === 1 && fields[0].trim() === '')) {
+      stopped = visit({ line: recordLine, fields }) === false;
+    }
+    fields = [];
+    field = '';
+  };
+
+  // Field text is copied in slices (from `start` up to a quote, comma or line break), not per character
+  let start = 0;
+  const flush = (end: number) => {
+    if (end > start) field += src.slice(start, end);
+  };
+
+  for (let i = 0; i < src.length && !stopped; i++) {
+    const ch = src[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        flush(i);
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+        start = i + 1;
+      } else if (ch === '\n' || (ch === '\r' && src[i + 1] !== '\n')) {
+        line++;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      flush(i);
+      inQuotes = true;
+      quoteLine = line;
+      start = i + 1;
+    } else if (ch === ',') {
+      flush(i);
+      fields.push(field);
+      field = '';
+      start = i + 1;
+    } else if (ch === '\r' || ch === '\n') {
+      flush(i);
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+      start = i + 1;
+    }
+  }
+  if (stopped) return;
+  flush(src.length);
+
+  if (inQuotes) {
+    endRecord(quoteLine);
+  } else if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+};
+
+/**
+ * Parse CSV text into records (see forEachCSVRecord)
+ */
+export const parseCSV = (text: string): CSVRecord[] => {
+  const records: CSVRecord[] = [];
+  forEachCSVRecord(text, (record) => {
+    records.push(record);
+  });
+  return records;
+};
+
+/**
+ * Serialize records as CSV text (fields quoted only when needed)
+ */
+export const serializeCSV = (rows: string[][]): string =>
+  rows
+    .map((fields) =>
+      fields.map((f) => (/[",\r\n]/.test(f) ? `"${f.replace(/"/g, '""')}"` : f)).join(',')
+    )
+    .join('\n') + '\n';
+
+/**
+ * Normalized header key used for alias matching ("Angle (deg)" → "angledeg")
+ */
+export const headerKey = (raw: string): string => raw.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Map raw header names to canonical column names
+ * Returns the column index per canonical name and the headers that matched nothing
+ */
+export const resolveHeaders = (headers: string[]) => {
+  const columns: Partial<Record<CanonicalColumn, number>> = {};
+  const unmapped: string[] = [];
+
+  headers.forEach((raw, idx) => {
+    const key = headerKey(raw);
+    const canonical = (Object.keys(HEADER_ALIASES) as CanonicalColumn[]).find((c) =>
+      HEADER_ALIASES[c].includes(key)
+    );
+    if (canonical && columns[canonical] === undefined) {
+      columns[canonical] = idx;
+    } else {
+      unmapped.push(raw.trim());
+    }
+  });
+
+  return { columns, unmapped };
+};
+
+/**
+ * Parse positions CSV text into per-person samples plus a validation report
+ */
+export const parsePositionsCSV = (
+  csvText: string,
+  options: PositionsParseOptions = {}
+): ParsedPositions => {
+  let headerRecord = null as CSVRecord | null;
+  forEachCSVRecord(csvText, (record) => {
+    headerRecord = record;
+    return false;
+  });
+  const report: CSVImportReport = {
+    totalRows: 0,
+    acceptedRows: 0,
+    unmappedHeaders: [],
+    skippedRows: [],
+    nonNumeric: [],
+    unknownBenches: [],
+    duplicates: [],
+    unterminatedQuote: null,
+  };
+  const csvPositions: Record<string, CSVSample[]> = {};
+
+  if (headerRecord?.openQuoteLine !== undefined) {
+    report.unterminatedQuote = { line: headerRecord.openQuoteLine };
+  }
+  if (!headerRecord) {
+    return { csvPositions, durationSec: 0, sampleStepSec: 1, report };
+  }
+
+  const headerFields = headerRecord.fields;
+  const { columns, unmapped } = resolveHeaders(headerFields);
+  report.unmappedHeaders = unmapped;
+
+  // Rows are scanned afresh by each pass rather than held as records (large files)
+  const forEachRow = (visit: (record: CSVRecord) => void) => {
+    let header = true;
+    forEachCSVRecord(csvText, (record) => {
+      if (header) header = false;
+      else visit(record);
+    });
+  };
+
+  const room = options.room ?? getActiveRoom();
+  const knownBenches = new Set<string>([
+    ...room.benches.map((b) => b.id),
+    ...SPECIAL_BENCH_CODES,
+  ]);
+  const seen = new Map<string, Map<number, number>>(); // personId → tSec → first line
+  let maxTime = 0;
+
+  const cell = (fields: string[], column: CanonicalColumn): string => {
+    const idx = columns[column];
+    return idx === undefined ? '' : (fields[idx] ?? '').trim();
+  };
+
+  // Person and timestamp of a row, or why it can't be used
+  const readRow = (fields: string[]): { personId: string; stamp: Timestamp; rawStamp: string } | { reason: string } => {
+    if (fields.length > headerFields.length) {
+      return { reason: `${fields.length} fields but header has ${headerFields.length} (unquoted comma?)` };
+    }
+
+    const personId = cell(fields, 'personId');
+    if (!personId) return { reason: 'missing personId' };
+
+    // tSec column first; an absolute `time` stands in when tSec is empty
+    const rawTSec = cell(fields, 'tSec');
+    const rawTime = cell(fields, 'time');
+    const rawStamp = rawTSec !== '' ? rawTSec : rawTime;
+    const stamp = parseTimestamp(rawStamp);
+    if (!stamp || (rawTSec === '' && stamp.kind === 'seconds')) {
+      return { reason: rawStamp === '' ? 'missing tSec' : `unrecognized time "${rawStamp}"` };
+    }
+    return { personId, stamp, rawStamp };
+  };
+
+  // Pass 1: structural checks and timestamps (origins need every row)
+  let firstClock: number | null = null;
+  let firstIso: Extract<Timestamp, { kind: 'iso' }> | null = null;
+
+  forEachRow(({ line, fields, openQuoteLine }) => {
+    report.totalRows++;
+    if (openQuoteLine !== undefined) {
+      report.unterminatedQuote = { line: openQuoteLine };
+    }
+    const row = readRow(fields);
+    if ('reason' in row) {
+      report.skippedRows.push({ line, reason: row.reason });
+      return;
+    }
+
+    // ISO datetimes count towards the earliest clock time by their wall-clock part
+    const { stamp } = row;
+    const secOfDay = stamp.kind === 'clock' ? stamp.secOfDay : stamp.kind === 'iso' ? parseClockTime(stamp.wall) : null;
+    if (secOfDay !== null) {
+      firstClock = firstClock === null ? secOfDay : Math.min(firstClock, secOfDay);
+    }
+    if (stamp.kind === 'iso' && (!firstIso || stamp.epochMs < firstIso.epochMs)) {
+      firstIso = stamp;
+    }
+  });
+
+  // One origin for both kinds of absolute time: the manifest's start time, else the earliest sample.
+  // ISO datetimes are placed on it through the wall-clock part of the earliest one.
+  const clockOrigin = options.clockOriginSec ?? firstClock;
+  const firstIsoClock = firstIso ? parseClockTime(firstIso.wall) : null;
+  const isoOriginMs = firstIso
+    ? firstIso.epochMs -
+      (firstIsoClock === null || clockOrigin === null ? 0 : clockOffsetSec(firstIsoClock, clockOrigin, firstIso.wall)) * 1000
+    : null;
+
+  // Pass 2: build samples (rows skipped in pass 1 are skipped again)
+  forEachRow(({ line, fields }) => {
+    const row = readRow(fields);
+    if ('reason' in row) return;
+    const { personId, stamp, rawStamp } = row;
+
+    let tSec: number;
+    if (stamp.kind === 'seconds') {
+      tSec = stamp.tSec;
+    } else if (stamp.kind === 'clock') {
+      tSec = clockOffsetSec(stamp.secOfDay, clockOrigin!, rawStamp);
+    } else {
+      tSec = (stamp.epochMs - isoOriginMs!) / 1000;
+    }
+
+    let seenTimes = seen.get(personId);
+    if (!seenTimes) seen.set(personId, (seenTimes = new Map()));
+    const firstLine = seenTimes.get(tSec);
+    if (firstLine !== undefined) {
+      report.duplicates.push({ line, firstLine, personId, tSec });
+      return;
+    }
+    seenTimes.set(tSec, line);
+
+    const sample: CSVSample = { tSec, line };
+
+    // Keep the wall-clock text for labels; ISO datetimes contribute their time part
+    const time = cell(fields, 'time');
+    const timeStamp = parseTimestamp(time);
+    const wall = timeStamp?.kind === 'iso' ? timeStamp.wall : time || wallClockText(stamp, rawStamp);
+    if (wall) {
+      sample.time = wall;
+    }
+
+    const rawAngle = cell(fields, 'angleDeg');
+    if (rawAngle !== '') {
+      const angle = toNumber(rawAngle);
+      if (isNaN(angle)) {
+        report.nonNumeric.push({ line, column: 'angleDeg', value: rawAngle });
+      } else {
+        sample.angleDeg = normalizeAngle(angle);
+      }
+    }
+
+    const bench = cell(fields, 'bench');
+    if (bench) {
+      sample.bench = bench;
+      if (!knownBenches.has(bench)) {
+        report.unknownBenches.push({ line, bench });
+      }
+    }
+
+    const rawRadius = cell(fields, 'radiusFactor');
+    if (rawRadius !== '') {
+      const radius = toNumber(rawRadius);
+      if (isNaN(radius)) {
+        report.nonNumeric.push({ line, column: 'radiusFactor', value: rawRadius });
+      } else {
+        sample.radiusFactor = radius;
+      }
+    } else if (bench && room.benches.some((b) => b.id === bench)) {
+      sample.radiusFactor = SEATED_RADIUS_FACTOR;
+    }
+
+    const notes = cell(fields, 'notes');
+    if (notes) {
+      sample.notes = notes;
+    }
+
+    const motion = cell(fields, 'motion');
+    if (motion) {
+      sample.motion = motion;
+    }
+
+    if (!csvPositions[personId]) {
+      csvPositions[personId] = [];
+    }
+    csvPositions[personId].push(sample);
+    maxTime = Math.max(maxTime, tSec);
+    report.acceptedRows++;
+  });
+
+  // Sort samples by tSec for each person, tracking the finest sampling step
+  let sampleStepSec = Infinity;
+  Object.keys(csvPositions).forEach((personId) => {
+    const samples = csvPositions[personId].sort((a, b) => a.tSec - b.tSec);
+    for (let i = 1; i < samples.length; i++) {
+      const gap = samples[i].tSec - samples[i - 1].tSec;
+      if (gap > 0) sampleStepSec = Math.min(sampleStepSec, gap);
+    }
+  });
+
+  return {
+    csvPositions,
+    durationSec: maxTime,
+    sampleStepSec: Number.isFinite(sampleStepSec) ? sampleStepSec : 1,
+    report,
+  };
+};
+
+/**
+ * Whether a report contains anything the observer should look at
+ */
+export const reportHasIssues = (report: CSVImportReport): boolean =>
+  report.skippedRows.length > 0 ||
+  report.nonNumeric.length > 0 ||
+  report.unknownBenches.length > 0 ||
+  report.duplicates.length > 0 ||
+  report.unterminatedQuote !== null ||
+  report.unmappedHeaders.length > 0;
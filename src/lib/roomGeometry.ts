@@ -3,8 +3,69 @@
  * Defines the circular grid layout matching the CSV reference
  * 
  * Angle convention: 0° = right, 90° = top, counter-clockwise positive
+ *
+ * ROOM is the built-in layout. Sessions may carry their own (room.json,
+ * validated by dataSchemas); the active one is set with setActiveRoom and read
+ * by the bench helpers below, the CSV loader and CircularGrid.
+ * Arcs whose startDeg is greater than endDeg wrap through 0°.
  */
 
+export interface BenchDef {
+  id: string;
+  label: string;
+  startDeg: number;
+  endDeg: number;
+  color: string;
+  seats: number; // seat slots along the arc
+}
+
+export interface CardinalLabel {
+  angleDeg: number;
+  label: string;
+}
+
+/**
+ * Doorway: stretch of the rim where people enter and leave the room
+ */
+export interface Doorway {
+  id: string;
+  label: string;
+  startDeg: number;
+  endDeg: number;
+}
+
+export interface PolarPoint {
+  angleDeg: number;
+  radiusFactor: number;
+}
+
+/**
+ * Fixed furniture people walk around: a circle (radius in radiusFactor units)
+ * or a polygon, both in polar coordinates
+ */
+export type Obstacle =
+  | { id: string; label: string; kind: 'circle'; center: PolarPoint; radius: number }
+  | { id: string; label: string; kind: 'polygon'; points: readonly PolarPoint[] };
+
+/**
+ * Shape of a room layout (ROOM is the built-in one)
+ */
+export interface RoomGeometry {
+  angleZeroDeg: number;
+  sectors: number;
+  sectorSizeDeg: number;
+  rings: number;
+  ringRadiusFactors: readonly number[];
+  benches: readonly BenchDef[];
+  sectorLabels: readonly string[];
+  ringLabels: readonly string[];
+  cardinals: readonly CardinalLabel[];
+  radiusM: number; // metres from the centre to the rim (radiusFactor 1.0)
+  exitRadiusFactor: number; // beyond this radius a person is outside the room
+  doorways: readonly Doorway[];
+  obstacles: readonly Obstacle[];
+}
+
 export const ROOM = {
   angleZeroDeg: 0,         // 0° at right (3 o'clock)
   sectors: 10,             // 10 equal slices
@@ -12,15 +73,15 @@ export const ROOM = {
   rings: 5,                // 5 concentric rings
   ringRadiusFactors: [0.2, 0.4, 0.6, 0.8, 1.0], // inner → outer (uniform spacing)
   
-  // Benches drawn as arcs on the rim
+  // Benches drawn as arcs on the rim, each with 4 seats
   // Angles in degrees, CCW, 0°=right, 90°=top
   benches: [
-    { id: "T2", label: "Top-Right",    startDeg: 72,  endDeg: 108, color: "#3498db" }, // top-right
-    { id: "T1", label: "Top-Left",     startDeg: 108, endDeg: 144, color: "#2ecc71" }, // top-left
-    { id: "R",  label: "Right",        startDeg: 0,   endDeg: 36,  color: "#e74c3c" }, // right
-    { id: "L",  label: "Left",         startDeg: 180, endDeg: 216, color: "#f39c12" }, // left
-    { id: "B1", label: "Bottom-Left",  startDeg: 252, endDeg: 288, color: "#9b59b6" }, // bottom-left
-    { id: "B2", label: "Bottom-Right", startDeg: 288, endDeg: 324, color: "#1abc9c" }  // bottom-right
+    { id: "T2", label: "Top-Right",    startDeg: 72,  endDeg: 108, color: "#3498db", seats: 4 }, // top-right
+    { id: "T1", label: "Top-Left",     startDeg: 108, endDeg: 144, color: "#2ecc71", seats: 4 }, // top-left
+    { id: "R",  label: "Right",        startDeg: 0,   endDeg: 36,  color: "#e74c3c", seats: 4 }, // right
+    { id: "L",  label: "Left",         startDeg: 180, endDeg: 216, color: "#f39c12", seats: 4 }, // left
+    { id: "B1", label: "Bottom-Left",  startDeg: 252, endDeg: 288, color: "#9b59b6", seats: 4 }, // bottom-left
+    { id: "B2", label: "Bottom-Right", startDeg: 288, endDeg: 324, color: "#1abc9c", seats: 4 }  // bottom-right
   ],
   
   // Optional reference labels
@@ -33,8 +94,85 @@ export const ROOM = {
     { angleDeg: 90, label: "90° Top" },
     { angleDeg: 180, label: "180° Left" },
     { angleDeg: 270, label: "270° Bottom" }
-  ]
-} as const;
+  ],
+
+  // Physical scale: the rim is 6 m from the centre
+  radiusM: 6,
+
+  // Outside the rim = exited; people come and go through the egress doorway
+  exitRadiusFactor: 1.0,
+  doorways: [
+    { id: "E1", label: "Egress", startDeg: 350, endDeg: 20 }
+  ],
+
+  // No fixed furniture besides the benches
+  obstacles: []
+} as const satisfies RoomGeometry;
+
+/**
+ * Deep, mutable copy of a room layout (e.g. for storing with a session)
+ */
+export const cloneRoomGeometry = (room: RoomGeometry): RoomGeometry =>
+  JSON.parse(JSON.stringify(room));
+
+// The layout of the loaded session (bench helpers and the CSV loader read it)
+let activeRoom: RoomGeometry = ROOM;
+
+/**
+ * Layout of the loaded session
+ */
+export const getActiveRoom = (): RoomGeometry => activeRoom;
+
+/**
+ * Make a layout the active one (null restores ROOM)
+ */
+export const setActiveRoom = (room: RoomGeometry | null): void => {
+  activeRoom = room ?? ROOM;
+};
+
+// Seats per bench when a layout doesn't say
+export const DEFAULT_BENCH_SEATS = 4;
+
+// Room radius when a layout doesn't say (the built-in room's)
+export const DEFAULT_ROOM_RADIUS_M = ROOM.radiusM;
+
+/**
+ * Fill derived and optional fields of a partial layout (e.g. from room.json)
+ * rings and sectorSizeDeg always follow ringRadiusFactors and sectors
+ */
+export const normalizeRoomGeometry = (
+  room: Pick<RoomGeometry, 'sectors' | 'ringRadiusFactors'> &
+    Partial<Omit<RoomGeometry, 'benches'>> & { benches: readonly (Omit<BenchDef, 'seats'> & { seats?: number })[] }
+): RoomGeometry => ({
+  angleZeroDeg: room.angleZeroDeg ?? 0,
+  sectors: room.sectors,
+  sectorSizeDeg: 360 / room.sectors,
+  rings: room.ringRadiusFactors.length,
+  ringRadiusFactors: [...room.ringRadiusFactors],
+  benches: room.benches.map((b) => ({ ...b, seats: b.seats ?? DEFAULT_BENCH_SEATS })),
+  sectorLabels: room.sectorLabels ?? Array.from({ length: room.sectors }, (_, i) => `S${i}`),
+  ringLabels: room.ringLabels ?? room.ringRadiusFactors.map((_, i) => `R${i + 1}`),
+  cardinals: room.cardinals ? room.cardinals.map((c) => ({ ...c })) : cloneRoomGeometry(ROOM).cardinals,
+  radiusM: room.radiusM ?? DEFAULT_ROOM_RADIUS_M,
+  exitRadiusFactor: room.exitRadiusFactor ?? 1.0,
+  doorways: room.doorways ? room.doorways.map((z) => ({ ...z })) : [],
+  obstacles: room.obstacles ? JSON.parse(JSON.stringify(room.obstacles)) : [],
+});
+
+/**
+ * Whether an angle lies on an arc from startDeg to endDeg (counter-clockwise)
+ * Arcs with startDeg > endDeg wrap through 0°; the end is exclusive
+ */
+export const isAngleInArc = (angleDeg: number, startDeg: number, endDeg: number): boolean => {
+  const a = ((angleDeg % 360) + 360) % 360;
+  return startDeg <= endDeg ? a >= startDeg && a < endDeg : a >= startDeg || a < endDeg;
+};
+
+/**
+ * Angular span of an arc in degrees (handles wrap through 0°)
+ */
+export const arcSpanDeg = (startDeg: number, endDeg: number): number =>
+  startDeg <= endDeg ? endDeg - startDeg : 360 - startDeg + endDeg;
 
 /**
  * Convert polar coordinates to Cartesian
@@ -59,28 +197,142 @@ export const polarToCartesian = (
   };
 };
 
+/**
+ * Convert Cartesian coordinates (y up, relative to the centre) to polar
+ * Inverse of polarToCartesian
+ * @returns radius and angleDeg in [0, 360) (0° = right, counter-clockwise)
+ */
+export const cartesianToPolar = (x: number, y: number): { radius: number; angleDeg: number } => {
+  const angleDeg = (Math.atan2(y, x) * 180) / Math.PI;
+  return {
+    radius: Math.hypot(x, y),
+    angleDeg: angleDeg < 0 ? angleDeg + 360 : angleDeg,
+  };
+};
+
+// ====== REAL-WORLD UNITS ======
+// Distances use the room's radiusM: radiusFactor 1.0 is radiusM metres.
+
+/**
+ * radiusFactor units → metres
+ */
+export const toMetres = (radiusFactor: number, room: RoomGeometry = activeRoom): number => radiusFactor * room.radiusM;
+
+/**
+ * Length in metres of the shorter arc between two angles on a circle
+ */
+export const arcLengthM = (
+  fromDeg: number,
+  toDeg: number,
+  radiusFactor: number,
+  room: RoomGeometry = activeRoom
+): number => {
+  const diff = Math.abs((((toDeg - fromDeg) % 360) + 540) % 360 - 180);
+  return ((diff * Math.PI) / 180) * toMetres(radiusFactor, room);
+};
+
+/**
+ * Straight-line (chord) distance in metres between two positions
+ */
+export const chordDistanceM = (a: PolarPoint, b: PolarPoint, room: RoomGeometry = activeRoom): number => {
+  const pa = polarToCartesian(0, 0, a.radiusFactor, a.angleDeg);
+  const pb = polarToCartesian(0, 0, b.radiusFactor, b.angleDeg);
+  return toMetres(Math.hypot(pb.x - pa.x, pb.y - pa.y), room);
+};
+
+/**
+ * Walking speed in m/s between two timed positions (null when no time passes)
+ */
+export const speedMps = (
+  a: PolarPoint & { tSec: number },
+  b: PolarPoint & { tSec: number },
+  room: RoomGeometry = activeRoom
+): number | null => {
+  const dt = b.tSec - a.tSec;
+  return dt > 0 ? chordDistanceM(a, b, room) / dt : null;
+};
+
+/**
+ * Floor area in m² inside a radiusFactor (the whole room by default)
+ */
+export const areaM2 = (radiusFactor = 1, room: RoomGeometry = activeRoom): number =>
+  Math.PI * toMetres(radiusFactor, room) ** 2;
+
+/**
+ * Floor area in m² of one sector/ring cell (ring null = the whole sector)
+ */
+export const cellAreaM2 = (ring: number | null, room: RoomGeometry = activeRoom): number => {
+  const outer = ring === null ? 1 : room.ringRadiusFactors[ring];
+  const inner = ring === null || ring === 0 ? 0 : room.ringRadiusFactors[ring - 1];
+  return (areaM2(outer, room) - areaM2(inner, room)) / room.sectors;
+};
+
+/**
+ * Crowd density in people/m² for a head count over an area
+ */
+export const densityPerM2 = (people: number, area: number): number => (area > 0 ? people / area : 0);
+
 /**
  * Check if an angle is within a bench's arc
  */
-export const isAngleInBench = (angleDeg: number, benchId: string): boolean => {
-  const bench = ROOM.benches.find(b => b.id === benchId);
+export const isAngleInBench = (angleDeg: number, benchId: string, room: RoomGeometry = activeRoom): boolean => {
+  const bench = room.benches.find(b => b.id === benchId);
   if (!bench) return false;
   
-  const normalized = ((angleDeg % 360) + 360) % 360;
-  return normalized >= bench.startDeg && normalized < bench.endDeg;
+  return isAngleInArc(angleDeg, bench.startDeg, bench.endDeg);
 };
 
 /**
  * Clamp an angle to a bench's range (for seated positions)
  */
-export const clampAngleToBench = (angleDeg: number, benchId: string): number => {
-  const bench = ROOM.benches.find(b => b.id === benchId);
+export const clampAngleToBench = (angleDeg: number, benchId: string, room: RoomGeometry = activeRoom): number => {
+  const bench = room.benches.find(b => b.id === benchId);
   if (!bench) return angleDeg;
   
   const normalized = ((angleDeg % 360) + 360) % 360;
   const { startDeg, endDeg } = bench;
+  if (isAngleInArc(normalized, startDeg, endDeg)) return normalized;
   
-  if (normalized < startDeg) return startDeg;
-  if (normalized >= endDeg) return endDeg - 0.1; // Just inside the end
-  return normalized;
+  // Outside the arc: snap to the nearer end
+  const toStart = Math.min(Math.abs(normalized - startDeg), 360 - Math.abs(normalized - startDeg));
+  const toEnd = Math.min(Math.abs(normalized - endDeg), 360 - Math.abs(normalized - endDeg));
+  if (toStart <= toEnd) return startDeg;
+  return endDeg >= 0.1 ? endDeg - 0.1 : endDeg - 0.1 + 360; // Just inside the end
+};
+
+// Benches are drawn on this circle (fraction of the rim radius)
+export const BENCH_RADIUS_FACTOR = 0.92;
+
+/**
+ * Sector and ring cell of a position, with the code observers write ("S3-R4")
+ * ring is null beyond the outermost ring; the code is then just the sector
+ */
+export const gridCellAt = (
+  angleDeg: number,
+  radiusFactor: number,
+  room: RoomGeometry = activeRoom
+): { sector: number; ring: number | null; code: string } => {
+  const fromZero = (((angleDeg - room.angleZeroDeg) % 360) + 360) % 360;
+  const sector = Math.floor(fromZero / room.sectorSizeDeg) % room.sectors;
+  const ringIndex = room.ringRadiusFactors.findIndex((factor) => radiusFactor <= factor);
+  const ring = ringIndex < 0 ? null : ringIndex;
+  const sectorLabel = room.sectorLabels[sector] ?? `S${sector}`;
+  return {
+    sector,
+    ring,
+    code: ring === null ? sectorLabel : `${sectorLabel}-${room.ringLabels[ring] ?? `R${ring + 1}`}`,
+  };
+};
+
+/**
+ * Bench drawn at a position (within `tolerance` of the bench circle), if any
+ */
+export const benchAt = (
+  angleDeg: number,
+  radiusFactor: number,
+  room: RoomGeometry = activeRoom,
+  tolerance = 0.04
+): BenchDef | null => {
+  if (Math.abs(radiusFactor - BENCH_RADIUS_FACTOR) > tolerance) return null;
+  return room.benches.find((b) => isAngleInArc(angleDeg, b.startDeg, b.endDeg)) ?? null;
 };
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clockOriginFromSamples,
+  formatClock,
+  formatDuration,
+  fractionDigitsForStep,
+  parseClockTime,
+  parseTimestamp,
+  resolveSessionClock,
+} from './sessionClock';
+
+describe('parseClockTime', () => {
+  it('reads 24-hour and 12-hour clock times into seconds since midnight', () => {
+    expect(parseClockTime('16:56')).toBe(60960);
+    expect(parseClockTime('16:56:03.25')).toBe(60963.25);
+    expect(parseClockTime('4:56:03 pm')).toBe(60963);
+    expect(parseClockTime('12:00 AM')).toBe(0);
+    expect(parseClockTime('12:00 PM')).toBe(43200);
+  });
+
+  it('rejects text that is not a clock time', () => {
+    for (const text of ['', '16', '24:00', '13:00 PM', '0:30 AM', '10:60', '10:00:60', 'noon']) {
+      expect(parseClockTime(text)).toBeNull();
+    }
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('tells seconds, clock times and ISO datetimes apart', () => {
+    expect(parseTimestamp(' 12.4 ')).toEqual({ kind: 'seconds', tSec: 12.4 });
+    expect(parseTimestamp('4:56:03.250')).toEqual({ kind: 'clock', secOfDay: 17763.25 });
+    expect(parseTimestamp('2025-01-10T16:56:03.250-05:00')).toEqual({
+      kind: 'iso',
+      epochMs: Date.UTC(2025, 0, 10, 21, 56, 3, 250),
+      wall: '16:56:03.250',
+    });
+    expect(parseTimestamp('2025-01-10 16:56Z')).toMatchObject({ kind: 'iso', wall: '16:56' });
+  });
+
+  it('returns null for empty or unrecognised text', () => {
+    expect(parseTimestamp('  ')).toBeNull();
+    expect(parseTimestamp('soon')).toBeNull();
+    expect(parseTimestamp('2025-01-10')).toBeNull();
+  });
+});
+
+describe('resolveSessionClock', () => {
+  const csvPositions = {
+    P1: [{ tSec: 5, time: '16:56:05' }],
+    P2: [{ tSec: 2 }, { tSec: 3, time: '16:56:03' }],
+  };
+
+  it('takes the origin from the earliest sample with a time', () => {
+    expect(clockOriginFromSamples(csvPositions)).toBe(60960);
+    expect(clockOriginFromSamples({ P1: [{ tSec: 0 }] })).toBeNull();
+  });
+
+  it('prefers the manifest start time and keeps its other fields', () => {
+    const manifest = { startTime: '4:00 PM', date: '2025-01-10', timeZone: 'America/New_York' };
+    expect(resolveSessionClock(manifest, csvPositions)).toEqual({
+      originSec: 57600,
+      date: '2025-01-10',
+      timeZone: 'America/New_York',
+      endCaption: null,
+    });
+    expect(resolveSessionClock({ startTime: 'later' }, csvPositions).originSec).toBe(60960);
+    expect(resolveSessionClock(null, null).originSec).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('formats clock times in 12h and 24h, wrapping past midnight', () => {
+    expect(formatClock(60963, '12h')).toBe('4:56:03 PM');
+    expect(formatClock(60963, '24h')).toBe('16:56:03');
+    expect(formatClock(0, '12h')).toBe('12:00:00 AM');
+    expect(formatClock(86400 + 5, '24h')).toBe('00:00:05');
+  });
+
+  it('truncates rather than rounds sub-second values', () => {
+    expect(formatClock(59.96, '24h', 1)).toBe('00:00:59.9');
+    expect(formatDuration(59.96, 1)).toBe('0:59.9');
+  });
+
+  it('formats durations with hours only when needed', () => {
+    expect(formatDuration(75)).toBe('1:15');
+    expect(formatDuration(3725)).toBe('1:02:05');
+    expect(formatDuration(-3)).toBe('0:00');
+  });
+
+  it('shows as many decimals as the sampling step needs', () => {
+    expect(fractionDigitsForStep(10)).toBe(0);
+    expect(fractionDigitsForStep(0.5)).toBe(1);
+    expect(fractionDigitsForStep(0.25)).toBe(2);
+    expect(fractionDigitsForStep(0.0001)).toBe(3);
+    expect(fractionDigitsForStep(0)).toBe(0);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Session clock - maps playback time (tSec) to the session's wall-clock time
+ *
+ * The wall-clock origin comes from the session manifest (`startTime`) or,
+ * failing that, from the positions CSV `time` column (origin = time - tSec).
+ */
+
+import type { CSVSample } from './usePeoplePlaybackStore';
+import type { TrackerCalibration } from './trackerImport';
+import type { MotCalibration } from './motImport';
+import type { FieldCodeOptions } from './fieldCodes';
+import type { InterpolationSettings } from './interpolation';
+
+/**
+ * Optional per-session manifest (session.json)
+ */
+export interface SessionManifest {
+  title?: string;
+  date?: string; // YYYY-MM-DD
+  location?: string;
+  startTime?: string; // wall-clock time at tSec = 0, "16:56:00" or "4:56:00 PM"
+  timeZone?: string; // IANA zone, e.g. "America/New_York"
+  endCaption?: string; // shown instead of the clock once playback reaches the end
+  tracker?: TrackerCalibration; // needed to import Cartesian x/y tracker CSVs
+  mot?: MotCalibration; // needed to import MOTChallenge / CVAT annotations
+  fieldCodes?: FieldCodeOptions; // how field-sheet code CSVs are placed
+  interpolation?: Partial<InterpolationSettings>; // playback interpolation for this session
+}
+
+export interface SessionClock {
+  originSec: number | null; // seconds since midnight at tSec = 0, null if unknown
+  date: string | null;
+  timeZone: string | null;
+  endCaption: string | null;
+}
+
+export type ClockFormat = '12h' | '24h';
+
+export const EMPTY_SESSION_CLOCK: SessionClock = {
+  originSec: null,
+  date: null,
+  timeZone: null,
+  endCaption: null,
+};
+
+/**
+ * Parse "H:MM", "H:MM:SS" or "H:MM:SS.sss" with optional AM/PM into seconds
+ * since midnight. Returns null when the text is not a clock time
+ */
+export const parseClockTime = (text: string): number | null => {
+  const m = text.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?\s*([AaPp][Mm])?$/);
+  if (!m) return null;
+
+  let h = Number(m[1]);
+  const min = Number(m[2]);
+  const sec = m[3] ? Number(m[3]) : 0;
+  if (min > 59 || sec >= 60) return null;
+
+  const meridiem = m[4]?.toUpperCase();
+  if (meridiem) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (meridiem === 'PM' ? 12 : 0);
+  } else if (h > 23) {
+    return null;
+  }
+
+  return h * 3600 + min * 60 + sec;
+};
+
+export type Timestamp =
+  | { kind: 'seconds'; tSec: number }
+  | { kind: 'clock'; secOfDay: number }
+  | { kind: 'iso'; epochMs: number; wall: string };
+
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(?:Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Parse a sample timestamp: seconds ("12.4"), clock time ("4:56:03.250")
+ * or ISO 8601 datetime ("2025-01-10T16:56:03.250-05:00")
+ * ISO datetimes keep their wall-clock part as recorded (`wall`)
+ */
+export const parseTimestamp = (text: string): Timestamp | null => {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  const seconds = Number(trimmed);
+  if (Number.isFinite(seconds)) return { kind: 'seconds', tSec: seconds };
+
+  const secOfDay = parseClockTime(trimmed);
+  if (secOfDay !== null) return { kind: 'clock', secOfDay };
+
+  const iso = trimmed.match(ISO_DATETIME);
+  if (iso) {
+    const epochMs = Date.parse(trimmed.replace(' ', 'T'));
+    if (Number.isFinite(epochMs)) return { kind: 'iso', epochMs, wall: iso[1] };
+  }
+
+  return null;
+};
+
+/**
+ * Wall-clock origin from the first sample carrying a parseable `time`
+ */
+export const clockOriginFromSamples = (csvPositions: Record<string, CSVSample[]>): number | null => {
+  let best: { tSec: number; originSec: number } | null = null;
+
+  Object.values(csvPositions).forEach((samples) => {
+    for (const s of samples) {
+      if (!s.time) continue;
+      const wall = parseClockTime(s.time);
+      if (wall === null) continue;
+      if (!best || s.tSec < best.tSec) best = { tSec: s.tSec, originSec: wall - s.tSec };
+      break; // samples are sorted, the first hit is this person's earliest
+    }
+  });
+
+  return best ? best.originSec : null;
+};
+
+/**
+ * Combine manifest and CSV into the session clock (manifest wins)
+ */
+export const resolveSessionClock = (
+  manifest: SessionManifest | null,
+  csvPositions: Record<string, CSVSample[]> | null
+): SessionClock => {
+  const manifestOrigin = manifest?.startTime ? parseClockTime(manifest.startTime) : null;
+  return {
+    originSec: manifestOrigin ?? (csvPositions ? clockOriginFromSamples(csvPositions) : null),
+    date: manifest?.date ?? null,
+    timeZone: manifest?.timeZone ?? null,
+    endCaption: manifest?.endCaption ?? null,
+  };
+};
+
+// Helper: seconds within the minute as "SS" or "SS.s…"
+const formatSeconds = (sec: number, fractionDigits: number): string =>
+  fractionDigits > 0
+    ? sec.toFixed(fractionDigits).padStart(fractionDigits + 3, '0')
+    : Math.floor(sec).toString().padStart(2, '0');
+
+// Helper: truncate (not round) to the given number of decimals so 59.96 never shows as 60.0
+const truncate = (value: number, fractionDigits: number): number => {
+  const f = 10 ** fractionDigits;
+  return Math.floor(value * f + 1e-9) / f;
+};
+
+/**
+ * Decimals needed to show a sampling step (0 for whole-second sessions, at most 3)
+ */
+export const fractionDigitsForStep = (stepSec: number): number => {
+  if (!(stepSec > 0) || stepSec >= 1) return 0;
+  let digits = 1;
+  while (digits < 3 && Math.abs(stepSec * 10 ** digits - Math.round(stepSec * 10 ** digits)) > 1e-6) digits++;
+  return digits;
+};
+
+/**
+ * Format seconds since midnight as "4:56:00 PM" (12h) or "16:56:00" (24h)
+ * @param fractionDigits - Decimals shown for sub-second sessions (0 = whole seconds)
+ */
+export const formatClock = (secOfDay: number, format: ClockFormat, fractionDigits = 0): string => {
+  const wall = ((truncate(secOfDay, fractionDigits) % 86400) + 86400) % 86400;
+  const hh24 = Math.floor(wall / 3600);
+  const mm = Math.floor((wall % 3600) / 60).toString().padStart(2, '0');
+  const ss = formatSeconds(wall % 60, fractionDigits);
+
+  if (format === '24h') {
+    return `${hh24.toString().padStart(2, '0')}:${mm}:${ss}`;
+  }
+  const hh12 = (hh24 % 12) || 12;
+  return `${hh12}:${mm}:${ss} ${hh24 >= 12 ? 'PM' : 'AM'}`;
+};
+
+/**
+ * Format a duration as "M:SS" or "H:MM:SS" (with decimals if fractionDigits > 0)
+ */
+export const formatDuration = (sec: number, fractionDigits = 0): string => {
+  const total = Math.max(0, truncate(sec, fractionDigits));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = formatSeconds(total % 60, fractionDigits);
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/**
+ * Short time zone name (e.g. "EST") for the session date, or the raw zone id
+ */
+export const timeZoneLabel = (clock: SessionClock): string | null => {
+  if (!clock.timeZone) return null;
+  try {
+    const at = clock.date ? new Date(`${clock.date}T12:00:00Z`) : new Date();
+    const part = new Intl.DateTimeFormat('en-US', { timeZone: clock.timeZone, timeZoneName: 'short' })
+      .formatToParts(at)
+      .find((p) => p.type === 'timeZoneName');
+    return part?.value ?? clock.timeZone;
+  } catch {
+    return clock.timeZone; // unknown zone id
+  }
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { deriveSessionEvents } from './sessionEvents';
+import { ROOM } from './roomGeometry';
+
+describe('deriveSessionEvents', () => {
+  const events = deriveSessionEvents(
+    {
+      // There from the start: sits, gets up, leaves and comes back
+      P1: [
+        { tSec: 0, angleDeg: 90, radiusFactor: 0.5, motion: 'MOVING', line: 2 },
+        { tSec: 10, angleDeg: 90, radiusFactor: 0.92, bench: 'T2', motion: 'STILL', notes: 'reads' },
+        { tSec: 20, angleDeg: 130, radiusFactor: 0.92, bench: 'T1', motion: 'STILL', notes: 'reads' },
+        { tSec: 30, angleDeg: 10, radiusFactor: 0.9, motion: 'MOVING' },
+        { tSec: 40, angleDeg: 10, radiusFactor: 1.1, motion: 'MOVING' },
+        { tSec: 50, bench: 'EXIT' },
+        { tSec: 60, angleDeg: 5, radiusFactor: 0.8, motion: 'MOVING' },
+      ],
+      // First seen after the session start
+      P2: [{ tSec: 25, angleDeg: 0, radiusFactor: 0.9 }],
+    },
+    ROOM
+  );
+  const summary = events.map((e) => `${e.tSec} ${e.personId} ${e.kind}: ${e.message}`);
+
+  it('derives entries, exits, bench changes, motion changes and notes in time order', () => {
+    expect(summary).toEqual([
+      '10 P1 benchChange: sits on T2',
+      '10 P1 motion: stops',
+      '10 P1 note: “reads”',
+      '20 P1 benchChange: moves from T2 to T1',
+      '25 P2 entry: enters via Egress',
+      '30 P1 benchChange: gets up from T1',
+      '30 P1 motion: starts moving',
+      '40 P1 exit: leaves via Egress',
+      '60 P1 entry: enters via Egress',
+    ]);
+  });
+
+  it('keeps the CSV line of the sample', () => {
+    const first = deriveSessionEvents({ P1: [{ tSec: 0, angleDeg: 0, radiusFactor: 0.5, notes: 'hi', line: 7 }] }, ROOM);
+    expect(first).toEqual([{ personId: 'P1', kind: 'note', tSec: 0, line: 7, message: '“hi”' }]);
+  });
+
+  it('names no doorway when the room has none', () => {
+    const noDoors = { ...ROOM, doorways: [] };
+    const [entry] = deriveSessionEvents({ P1: [{ tSec: 0, bench: 'EXIT' }, { tSec: 5, angleDeg: 0, radiusFactor: 0.5 }] }, noDoors);
+    expect(entry.message).toBe('enters');
+  });
+});
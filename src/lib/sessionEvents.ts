@@ -0,0 +1,99 @@
+/**
+ * Session events - notable moments in csvPositions, for the timeline
+ *
+ * Walking each person's samples in time order:
+ * - entry       first in-room sample after being outside (or a first sample
+ *               after the session start), attributed to a doorway
+ * - exit        first outside sample after being in the room
+ * - benchChange sitting down, getting up or moving between benches
+ * - motion      STILL ↔ MOVING (motion column, else derived from speed)
+ * - note        a sample whose notes differ from the previous sample's
+ */
+
+import { isEntrySample, isOutsideSample, nearestDoorway, sessionStartSec } from './doorways';
+import { sampleMotionStates } from './motionStates';
+import type { RoomGeometry } from './roomGeometry';
+import type { CSVSample } from './usePeoplePlaybackStore';
+
+export type SessionEventKind = 'entry' | 'exit' | 'benchChange' | 'motion' | 'note';
+
+export const SESSION_EVENT_KINDS: SessionEventKind[] = ['entry', 'exit', 'benchChange', 'motion', 'note'];
+
+export const SESSION_EVENT_LABELS: Record<SessionEventKind, string> = {
+  entry: 'Entries',
+  exit: 'Exits',
+  benchChange: 'Bench changes',
+  motion: 'Still ↔ moving',
+  note: 'Notes',
+};
+
+export const SESSION_EVENT_COLORS: Record<SessionEventKind, string> = {
+  entry: '#2ecc71',
+  exit: '#e74c3c',
+  benchChange: '#3498db',
+  motion: '#CFBD94',
+  note: '#9b59b6',
+};
+
+export interface SessionEvent {
+  personId: string;
+  kind: SessionEventKind;
+  tSec: number;
+  line?: number; // CSV line of the sample
+  message: string;
+}
+
+/**
+ * Which session events the timeline shows
+ */
+export interface EventFilter {
+  kinds: SessionEventKind[];
+  personId: string | null; // null = everyone
+}
+
+export const DEFAULT_EVENT_FILTER: EventFilter = { kinds: SESSION_EVENT_KINDS, personId: null };
+
+// Helper: " via Egress" (doorway label, else id) for messages
+const viaDoorway = (angleDeg: number | undefined, room: RoomGeometry): string => {
+  const doorway = nearestDoorway(angleDeg, room);
+  return doorway ? ` via ${doorway.label || doorway.id}` : '';
+};
+
+/**
+ * Every person's events, sorted by time (then person)
+ */
+export const deriveSessionEvents = (csvPositions: Record<string, CSVSample[]>, room: RoomGeometry): SessionEvent[] => {
+  const benches = new Set(room.benches.map((b) => b.id));
+  const benchOf = (s: CSVSample) => (s.bench && benches.has(s.bench) ? s.bench : null);
+  const events: SessionEvent[] = [];
+  const startSec = sessionStartSec(csvPositions);
+
+  for (const [personId, samples] of Object.entries(csvPositions)) {
+    const states = sampleMotionStates(samples);
+    const event = (s: CSVSample, kind: SessionEventKind, message: string) =>
+      events.push({ personId, kind, tSec: s.tSec, line: s.line, message });
+
+    samples.forEach((s, i) => {
+      const prev = samples[i - 1];
+      const outside = isOutsideSample(s, room);
+      const wasOutside = prev !== undefined && isOutsideSample(prev, room);
+
+      if (isEntrySample(samples, i, room, startSec)) event(s, 'entry', `enters${viaDoorway(prev?.angleDeg ?? s.angleDeg, room)}`);
+      if (outside && prev && !wasOutside) event(s, 'exit', `leaves${viaDoorway(s.angleDeg ?? prev.angleDeg, room)}`);
+
+      if (prev && !outside && !wasOutside && benchOf(s) !== benchOf(prev)) {
+        const from = benchOf(prev);
+        const to = benchOf(s);
+        event(s, 'benchChange', from && to ? `moves from ${from} to ${to}` : to ? `sits on ${to}` : `gets up from ${from}`);
+      }
+
+      if (prev && !outside && !wasOutside && states[i] !== states[i - 1]) {
+        event(s, 'motion', states[i] === 'MOVING' ? 'starts moving' : 'stops');
+      }
+
+      if (s.notes && s.notes !== prev?.notes) event(s, 'note', `“${s.notes}”`);
+    });
+  }
+
+  return events.sort((a, b) => a.tSec - b.tSec || a.personId.localeCompare(b.personId));
+};
@@ -0,0 +1,179 @@
+/**
+ * Session import - turns dropped or picked files into a SessionImport
+ *
+ * Files are classified by extension and content:
+ * - .csv / .txt           → positions CSV (Cartesian x/y tracker output is
+ *                           converted using the manifest's `tracker` calibration,
+ *                           MOTChallenge / CVAT boxes using its `mot` calibration,
+ *                           field-sheet codes like "S3-R4" using the room layout)
+ * - .json array           → people metadata (people.json)
+ * - .json motionSchedule  → motion schedule (motion_schedule.json)
+ * - .json with benches    → room geometry (room.json)
+ * - .json other object    → session manifest (session.json)
+ *
+ * JSON files may use the versioned envelope from dataSchemas and are validated
+ * against their schema; invalid files are returned as DataFileErrors.
+ */
+
+import { parseDataFile, type DataFileError } from './dataSchemas';
+import type { MotionInterval, PersonBase, SessionImport } from './usePeoplePlaybackStore';
+import type { SessionManifest } from './sessionClock';
+import { ROOM, type RoomGeometry } from './roomGeometry';
+import { convertCartesianCSV, isCartesianCSV } from './trackerImport';
+import { convertMotText, defaultPersonIdForTrack, isMotText } from './motImport';
+import { convertFieldCodeCSV, isFieldCodeCSV } from './fieldCodes';
+
+export interface SessionFilesResult {
+  session: SessionImport | null;
+  errors: DataFileError[];
+  warnings: string[]; // non-fatal conversion problems
+  csvFileName: string;
+}
+
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionImportError';
+  }
+}
+
+// Helper: the payload of a (possibly) versioned envelope, used for classification only
+const payloadOf = (data: unknown): unknown =>
+  data !== null && typeof data === 'object' && !Array.isArray(data) && 'schemaVersion' in data
+    ? (data as { data?: unknown }).data
+    : data;
+
+// Helper: lowercase file extension without the dot
+const extensionOf = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+};
+
+/**
+ * Read, classify and validate a set of files into a SessionImport
+ * Throws SessionImportError when no positions CSV is present or a file cannot be
+ * classified; schema violations come back in `errors` with a null session
+ */
+export const readSessionFiles = async (files: File[]): Promise<SessionFilesResult> => {
+  let csvText: string | undefined;
+  let csvFileName = '';
+  let peopleBase: PersonBase[] | undefined;
+  let motionSchedule: MotionInterval[] | undefined;
+  let manifest: SessionManifest | undefined;
+  let roomGeometry: RoomGeometry | undefined;
+  const errors: DataFileError[] = [];
+
+  for (const file of files) {
+    const ext = extensionOf(file.name);
+    const text = await file.text();
+
+    if (ext === 'csv' || ext === 'txt') {
+      if (csvText !== undefined) {
+        throw new SessionImportError(`More than one positions CSV dropped (${file.name})`);
+      }
+      csvText = text;
+      csvFileName = file.name;
+      continue;
+    }
+
+    if (ext !== 'json') {
+      throw new SessionImportError(`Unsupported file type: ${file.name}`);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new SessionImportError(`${file.name} is not valid JSON`);
+    }
+
+    const payload = payloadOf(data);
+    if (Array.isArray(payload)) {
+      const result = parseDataFile('people', data, file.name);
+      if (result.error) errors.push(result.error);
+      else peopleBase = result.data;
+    } else if (payload && typeof payload === 'object' && 'motionSchedule' in payload) {
+      const result = parseDataFile('motionSchedule', data, file.name);
+      if (result.error) errors.push(result.error);
+      else motionSchedule = result.data.motionSchedule;
+    } else if (payload && typeof payload === 'object' && 'benches' in payload) {
+      const result = parseDataFile('room', data, file.name);
+      if (result.error) errors.push(result.error);
+      else roomGeometry = result.data;
+    } else if (payload && typeof payload === 'object') {
+      const result = parseDataFile('session', data, file.name);
+      if (result.error) errors.push(result.error);
+      else manifest = result.data;
+    } else {
+      throw new SessionImportError(`${file.name} is not a people list, motion schedule, room layout or session manifest`);
+    }
+  }
+
+  if (csvText === undefined) {
+    throw new SessionImportError('A positions CSV is required to import a session');
+  }
+
+  if (errors.length > 0) {
+    return { session: null, errors, warnings: [], csvFileName };
+  }
+
+  const warnings: string[] = [];
+  if (isMotText(csvText)) {
+    if (!manifest?.mot) {
+      throw new SessionImportError(
+        `${csvFileName} looks like MOTChallenge annotations; add a session manifest with "mot": { "fps", "centerX", "centerY", "radiusPx" }`
+      );
+    }
+    const conversion = convertMotText(csvText, manifest.mot);
+    csvText = conversion.csvText;
+    if (conversion.skippedRows.length > 0) {
+      const lines = conversion.skippedRows.map((r) => r.line);
+      warnings.push(
+        `${lines.length} annotation line${lines.length === 1 ? '' : 's'} skipped (line ${lines.slice(0, 5).join(', ')}${lines.length > 5 ? ', …' : ''})`
+      );
+    }
+
+    // Tracks that do not map onto a known person still play, but without metadata
+    if (peopleBase) {
+      const known = new Set(peopleBase.map((p) => p.id.toLowerCase()));
+      const unmatched = conversion.trackIds.filter(
+        (id) => !known.has((manifest.mot.idMap?.[id] ?? defaultPersonIdForTrack(id)).toLowerCase())
+      );
+      if (unmatched.length > 0) {
+        warnings.push(`No person for track${unmatched.length === 1 ? '' : 's'} ${unmatched.join(', ')}; add them to mot.idMap`);
+      }
+    }
+  } else if (isCartesianCSV(csvText)) {
+    if (!manifest?.tracker) {
+      throw new SessionImportError(
+        `${csvFileName} has x/y tracker columns; add a session manifest with "tracker": { "roomRadiusM": … }`
+      );
+    }
+    const conversion = convertCartesianCSV(csvText, manifest.tracker);
+    csvText = conversion.csvText;
+    if (conversion.invalidRows.length > 0) {
+      const lines = Array.from(new Set(conversion.invalidRows.map((r) => r.line)));
+      warnings.push(
+        `${lines.length} tracker row${lines.length === 1 ? '' : 's'} with non-numeric x/y (line ${lines.slice(0, 5).join(', ')}${lines.length > 5 ? ', …' : ''})`
+      );
+    }
+  } else if (isFieldCodeCSV(csvText)) {
+    // Codes are placed on the layout the session will play with
+    const conversion = convertFieldCodeCSV(csvText, roomGeometry ?? ROOM, manifest?.fieldCodes);
+    csvText = conversion.csvText;
+    if (conversion.invalidRows.length > 0) {
+      const lines = conversion.invalidRows.map((r) => r.line);
+      const codes = Array.from(new Set(conversion.invalidRows.map((r) => r.value)));
+      warnings.push(
+        `${lines.length} row${lines.length === 1 ? '' : 's'} with unknown field code${codes.length === 1 ? '' : 's'} ${codes.slice(0, 5).join(', ')}${codes.length > 5 ? ', …' : ''} (line ${lines.slice(0, 5).join(', ')}${lines.length > 5 ? ', …' : ''})`
+      );
+    }
+  }
+
+  return {
+    session: { csvText, peopleBase, motionSchedule, manifest, roomGeometry },
+    errors,
+    warnings,
+    csvFileName,
+  };
+};
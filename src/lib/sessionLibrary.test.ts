@@ -0,0 +1,68 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import {
+  deleteSession,
+  getSession,
+  listSessions,
+  saveSession,
+  updateSessionInfo,
+  updateSessionManifest,
+  updateSessionRoom,
+  type StoredSession,
+} from './sessionLibrary';
+import { ROOM, cloneRoomGeometry } from './roomGeometry';
+
+const session: Omit<StoredSession, 'id' | 'createdAt'> = {
+  title: 'Lobby',
+  date: '2025-01-10',
+  location: 'Station',
+  csvText: 'personId,tSec,angleDeg,radiusFactor\nP1,0,90,0.5\n',
+  peopleBase: [],
+  motionSchedule: null,
+  manifest: { startTime: '16:56:00' },
+  roomGeometry: cloneRoomGeometry(ROOM),
+};
+
+describe('session library', () => {
+  it('stores a session and reads it back whole', async () => {
+    const saved = await saveSession(session);
+    expect(saved).toMatchObject(session);
+    expect(await getSession(saved.id)).toEqual(saved);
+    expect(await getSession('missing')).toBeUndefined();
+    await deleteSession(saved.id);
+  });
+
+  it('lists summaries newest first', async () => {
+    const older = await saveSession(session);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const newer = await saveSession({ ...session, title: 'Platform' });
+    expect(await listSessions()).toEqual([
+      { id: newer.id, title: 'Platform', date: '2025-01-10', location: 'Station', createdAt: newer.createdAt },
+      { id: older.id, title: 'Lobby', date: '2025-01-10', location: 'Station', createdAt: older.createdAt },
+    ]);
+    await deleteSession(older.id);
+    await deleteSession(newer.id);
+    expect(await listSessions()).toEqual([]);
+  });
+
+  it('applies concurrent updates to one record without losing any', async () => {
+    const saved = await saveSession(session);
+    const room = { ...cloneRoomGeometry(ROOM), radiusM: 9 };
+    await Promise.all([
+      updateSessionInfo(saved.id, { title: 'Renamed' }),
+      updateSessionManifest(saved.id, { startTime: '9:00 AM' }),
+      updateSessionRoom(saved.id, room),
+    ]);
+    expect(await getSession(saved.id)).toEqual({
+      ...saved,
+      title: 'Renamed',
+      manifest: { startTime: '9:00 AM' },
+      roomGeometry: room,
+    });
+    await deleteSession(saved.id);
+  });
+
+  it('rejects updates to a missing session', async () => {
+    await expect(updateSessionInfo('missing', { title: 'x' })).rejects.toThrow('Session missing not found');
+  });
+});
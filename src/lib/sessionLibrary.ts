@@ -0,0 +1,154 @@
+/**
+ * Session library - imported observation sessions persisted in IndexedDB
+ *
+ * Each record holds everything needed to replay a session (positions CSV,
+ * people metadata, motion schedule, manifest, room geometry) plus descriptive info
+ * (title, observation date, location). Records survive browser reloads.
+ */
+
+import type { RoomGeometry } from './roomGeometry';
+import type { SessionManifest } from './sessionClock';
+import type { MotionInterval, PersonBase } from './usePeoplePlaybackStore';
+
+const DB_NAME = 'people-watching';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+export interface SessionInfo {
+  title: string;
+  date: string; // observation date, YYYY-MM-DD
+  location: string;
+}
+
+export interface StoredSession extends SessionInfo {
+  id: string;
+  createdAt: number; // epoch ms
+  csvText: string;
+  peopleBase: PersonBase[];
+  motionSchedule: MotionInterval[] | null;
+  manifest: SessionManifest | null; // clock origin, time zone, end caption
+  roomGeometry: RoomGeometry;
+}
+
+export type SessionSummary = SessionInfo & Pick<StoredSession, 'id' | 'createdAt'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Helper: open (and on first use create) the database
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Helper: run one request inside a transaction and resolve with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = run(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Helper: read, change and write back one record in a single readwrite transaction,
+// so concurrent updates (an auto-save and a rename, say) can't overwrite each other
+const updateStored = async (id: string, change: (existing: StoredSession) => StoredSession): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    let failure: Error | null = null;
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const existing = request.result as StoredSession | undefined;
+      if (existing) {
+        store.put(change(existing));
+      } else {
+        failure = new Error(`Session ${id} not found`);
+        tx.abort();
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(failure ?? tx.error);
+    tx.onabort = () => reject(failure ?? tx.error);
+  });
+};
+
+// Helper: random id for new records
+const newSessionId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * List all stored sessions (without their data), newest first
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const sessions = await withStore<StoredSession[]>('readonly', (store) => store.getAll());
+  return sessions
+    .map(({ id, title, date, location, createdAt }) => ({ id, title, date, location, createdAt }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Fetch one stored session with all of its data
+ */
+export const getSession = async (id: string): Promise<StoredSession | undefined> =>
+  withStore<StoredSession | undefined>('readonly', (store) => store.get(id));
+
+/**
+ * Save a new session and return the stored record
+ */
+export const saveSession = async (
+  session: Omit<StoredSession, 'id' | 'createdAt'>
+): Promise<StoredSession> => {
+  const record: StoredSession = { ...session, id: newSessionId(), createdAt: Date.now() };
+  await withStore('readwrite', (store) => store.put(record));
+  return record;
+};
+
+/**
+ * Update a stored session's title, date or location
+ */
+export const updateSessionInfo = async (id: string, info: Partial<SessionInfo>): Promise<void> =>
+  updateStored(id, (existing) => ({ ...existing, ...info }));
+
+/**
+ * Replace a stored session's manifest (e.g. after changing playback settings)
+ */
+export const updateSessionManifest = async (id: string, manifest: SessionManifest | null): Promise<void> =>
+  updateStored(id, (existing) => ({ ...existing, manifest }));
+
+/**
+ * Replace a stored session's room geometry
+ */
+export const updateSessionRoom = async (id: string, roomGeometry: RoomGeometry): Promise<void> =>
+  updateStored(id, (existing) => ({ ...existing, roomGeometry }));
+
+/**
+ * Remove a stored session
+ */
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildMotionTimeline } from './motionStates';
+import { ROOM } from './roomGeometry';
+import { keyMomentTimes, SMART_QUIET_SPEED, smartSpeedAt, stopAtKeyMoment } from './smartSpeed';
+import type { SessionEvent } from './sessionEvents';
+
+describe('smartSpeedAt', () => {
+  // Somebody moves from 0 to 10 s; nobody from 10 to 100 s
+  const motion = buildMotionTimeline(
+    {
+      P1: [
+        { tSec: 0, motion: 'MOVING' },
+        { tSec: 10, motion: 'STILL' },
+      ],
+    },
+    100,
+    ROOM
+  );
+  const events: SessionEvent[] = [
+    { personId: 'P1', kind: 'benchChange', tSec: 50, message: '' },
+    { personId: 'P1', kind: 'note', tSec: 70, message: '' },
+  ];
+  const keyMoments = keyMomentTimes(events);
+
+  it('only counts entries, exits and bench changes as key moments', () => {
+    expect(keyMoments).toEqual([50]);
+  });
+
+  it('plays at the chosen speed while someone moves', () => {
+    expect(smartSpeedAt(5, 2, motion, keyMoments)).toBe(2);
+    expect(smartSpeedAt(30, 4, null, [])).toBe(4);
+  });
+
+  it('slows to 1× around key moments, or the chosen speed if slower', () => {
+    for (const t of [47, 50, 53]) expect(smartSpeedAt(t, 16, motion, keyMoments)).toBe(1);
+    expect(smartSpeedAt(50, 0.25, motion, keyMoments)).toBe(0.25);
+    expect(smartSpeedAt(46.9, 16, motion, keyMoments)).toBe(SMART_QUIET_SPEED);
+  });
+
+  it('skims quiet stretches at a fixed rate, whatever the chosen speed', () => {
+    expect(smartSpeedAt(30, 2, motion, keyMoments)).toBe(SMART_QUIET_SPEED);
+    expect(smartSpeedAt(70, 16, motion, keyMoments)).toBe(SMART_QUIET_SPEED);
+  });
+});
+
+describe('stopAtKeyMoment', () => {
+  const keyMoments = [50, 80];
+
+  it('stops a forward step where the next key moment window starts', () => {
+    expect(stopAtKeyMoment(40, 60, keyMoments)).toBe(47);
+    expect(stopAtKeyMoment(40, 45, keyMoments)).toBe(45);
+    // Inside or at the edge of a window, only the next one stops the step
+    expect(stopAtKeyMoment(47, 47.1, keyMoments)).toBe(47.1);
+    expect(stopAtKeyMoment(52, 90, keyMoments)).toBe(77);
+    expect(stopAtKeyMoment(85, 99, keyMoments)).toBe(99);
+  });
+
+  it('stops a reverse step where the previous key moment window ends', () => {
+    expect(stopAtKeyMoment(70, 40, keyMoments)).toBe(53);
+    expect(stopAtKeyMoment(53, 52.9, keyMoments)).toBe(52.9);
+    expect(stopAtKeyMoment(90, 60, keyMoments)).toBe(83);
+    expect(stopAtKeyMoment(45, 0, keyMoments)).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Smart speed - playback rate that skims quiet stretches of a session
+ *
+ * Key moments are the times someone enters or leaves the room or changes
+ * bench (including sitting down and getting up). Within EVENT_WINDOW_SEC of
+ * a key moment playback drops to 1× (or the chosen speed if slower), and a
+ * tick never steps over the start of that window; while nobody is MOVING it
+ * fast-forwards at SMART_QUIET_SPEED; everywhere else it plays at the
+ * chosen speed.
+ */
+
+import { lastIndexAtOrBefore } from './interpolation';
+import { movingCountAt, type MotionTimeline } from './motionStates';
+import type { SessionEvent } from './sessionEvents';
+
+// Speeds offered by the speed selector
+export const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+// Rate through intervals where nobody moves (the fastest smart mode plays)
+export const SMART_QUIET_SPEED = 16;
+
+// Seconds either side of a key moment played at 1×
+const EVENT_WINDOW_SEC = 3;
+
+/**
+ * Times of entries, exits and bench changes among session events, ascending
+ */
+export const keyMomentTimes = (events: SessionEvent[]): number[] =>
+  Array.from(
+    new Set(events.filter((e) => e.kind === 'entry' || e.kind === 'exit' || e.kind === 'benchChange').map((e) => e.tSec))
+  ).sort((a, b) => a - b);
+
+/**
+ * Playback rate at time t in smart mode for a chosen speed
+ */
+export const smartSpeedAt = (
+  t: number,
+  speed: number,
+  motion: MotionTimeline | null,
+  keyMoments: number[]
+): number => {
+  // Near a key moment (the latest one at or before t + window is the closest candidate)
+  const k = lastIndexAtOrBefore(keyMoments, t + EVENT_WINDOW_SEC, (m) => m);
+  if (k >= 0 && keyMoments[k] >= t - EVENT_WINDOW_SEC) return Math.min(speed, 1);
+
+  if (motion && movingCountAt(motion, t) === 0) return Math.max(speed, SMART_QUIET_SPEED);
+  return speed;
+};
+
+/**
+ * Where a smart-mode tick from `from` towards `to` should stop: at the edge
+ * of the next key moment's window when the step would reach it, so a fast
+ * step can't skip a key moment (works in both directions)
+ */
+export const stopAtKeyMoment = (from: number, to: number, keyMoments: number[]): number => {
+  if (to > from) {
+    // First window starting after `from`
+    const edge = keyMoments[lastIndexAtOrBefore(keyMoments, from + EVENT_WINDOW_SEC, (m) => m) + 1];
+    return edge !== undefined && edge - EVENT_WINDOW_SEC < to ? edge - EVENT_WINDOW_SEC : to;
+  }
+  // Last window ending before `from`
+  let k = lastIndexAtOrBefore(keyMoments, from - EVENT_WINDOW_SEC, (m) => m);
+  while (k >= 0 && keyMoments[k] + EVENT_WINDOW_SEC >= from) k--;
+  return k >= 0 && keyMoments[k] + EVENT_WINDOW_SEC > to ? keyMoments[k] + EVENT_WINDOW_SEC : to;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { buildSwimlanes } from './swimlanes';
+import { ROOM } from './roomGeometry';
+import type { PersonBase } from './usePeoplePlaybackStore';
+
+describe('buildSwimlanes', () => {
+  const csvPositions = {
+    P10: [{ tSec: 0, angleDeg: 0, radiusFactor: 0.5 }],
+    P2: [
+      { tSec: 0, bench: 'EXIT' },
+      { tSec: 10, angleDeg: 0, radiusFactor: 0.5, motion: 'MOVING', notes: 'in' },
+      { tSec: 20, angleDeg: 90, radiusFactor: 0.92, bench: 'T2', motion: 'STILL', notes: 'in' },
+      { tSec: 30, angleDeg: 95, radiusFactor: 0.92, bench: 'T2', motion: 'STILL', notes: 'sits' },
+      { tSec: 40, angleDeg: 0, radiusFactor: 0.9, bench: 'Q', motion: 'MOVING' },
+      { tSec: 50, bench: 'EXIT' },
+    ],
+  };
+  const base: PersonBase = { id: 'P3', angleDeg: 0, radiusFactor: 0.5, bench: '', color: '', posture: '', words: '' };
+  const rows = buildSwimlanes(csvPositions, [base], 60, ROOM);
+
+  it('has a row per person, in natural id order, including people without samples', () => {
+    expect(rows.map((r) => r.personId)).toEqual(['P2', 'P3', 'P10']);
+    expect(rows[1]).toEqual({ personId: 'P3', presence: [], benches: [], motion: [], notes: [] });
+  });
+
+  it('merges samples into presence, bench and motion segments within the stay', () => {
+    const [p2] = rows;
+    expect(p2.presence).toEqual([{ tA: 10, tB: 50, value: true }]);
+    // Unknown benches don't count as seated
+    expect(p2.benches).toEqual([{ tA: 20, tB: 40, value: 'T2' }]);
+    expect(p2.motion).toEqual([
+      { tA: 10, tB: 20, value: 'MOVING' },
+      { tA: 20, tB: 40, value: 'STILL' },
+      { tA: 40, tB: 50, value: 'MOVING' },
+    ]);
+  });
+
+  it('runs the last sample to the session end', () => {
+    expect(rows[2].presence).toEqual([{ tA: 0, tB: 60, value: true }]);
+  });
+
+  it('marks a note where its text changes', () => {
+    expect(rows[0].notes).toEqual([
+      { tSec: 10, text: 'in' },
+      { tSec: 30, text: 'sits' },
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Swimlanes - per-person presence, bench, motion and note tracks over time
+ *
+ * Each sample's state holds from its tSec until the person's next sample (the
+ * last one until the session end), as in playback. Consecutive samples with
+ * the same state merge into one segment. Samples outside the room end a stay;
+ * bench and motion segments only cover time in the room.
+ */
+
+import { isOutsideSample } from './doorways';
+import { sampleMotionStates, type MotionState } from './motionStates';
+import type { RoomGeometry } from './roomGeometry';
+import type { CSVSample, PersonBase } from './usePeoplePlaybackStore';
+
+export interface Segment<V> {
+  tA: number;
+  tB: number;
+  value: V;
+}
+
+export interface SwimlaneRow {
+  personId: string;
+  presence: Segment<true>[]; // in the room
+  benches: Segment<string>[]; // seated on a room bench (bench id)
+  motion: Segment<MotionState>[];
+  notes: { tSec: number; text: string }[];
+}
+
+// Helper: merge per-sample values into segments (null = no segment)
+const toSegments = <V>(samples: CSVSample[], values: (V | null)[], endSec: number): Segment<V>[] => {
+  const segments: Segment<V>[] = [];
+  samples.forEach((s, i) => {
+    const value = values[i];
+    const tB = Math.max(s.tSec, samples[i + 1]?.tSec ?? endSec);
+    if (value === null) return;
+    const last = segments[segments.length - 1];
+    if (last && last.value === value && last.tB === s.tSec) last.tB = tB;
+    else if (tB > s.tSec) segments.push({ tA: s.tSec, tB, value });
+  });
+  return segments;
+};
+
+/**
+ * One row per person in csvPositions, plus people from peopleBase without samples
+ * Rows are sorted by person id.
+ */
+export const buildSwimlanes = (
+  csvPositions: Record<string, CSVSample[]>,
+  peopleBase: PersonBase[],
+  durationSec: number,
+  room: RoomGeometry
+): SwimlaneRow[] => {
+  const benches = new Set(room.benches.map((b) => b.id));
+  const ids = new Set([...Object.keys(csvPositions), ...peopleBase.map((p) => p.id)]);
+
+  return Array.from(ids)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map((personId) => {
+      const samples = csvPositions[personId] ?? [];
+      const inRoom = samples.map((s) => !isOutsideSample(s, room));
+      const states = sampleMotionStates(samples);
+      return {
+        personId,
+        presence: toSegments<true>(samples, inRoom.map((inside) => (inside ? true : null)), durationSec),
+        benches: toSegments(
+          samples,
+          samples.map((s, i) => (inRoom[i] && s.bench && benches.has(s.bench) ? s.bench : null)),
+          durationSec
+        ),
+        motion: toSegments(samples, states.map((state, i) => (inRoom[i] ? state : null)), durationSec),
+        notes: samples
+          .filter((s, i) => s.notes && s.notes !== samples[i - 1]?.notes)
+          .map((s) => ({ tSec: s.tSec, text: s.notes! })),
+      };
+    });
+};
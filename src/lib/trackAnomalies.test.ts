@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { detectTrackAnomalies } from './trackAnomalies';
+import { ROOM, type RoomGeometry } from './roomGeometry';
+import type { CSVSample } from './usePeoplePlaybackStore';
+
+const kinds = (samples: CSVSample[], room: RoomGeometry = ROOM) =>
+  detectTrackAnomalies({ P1: samples }, room).map((a) => `${a.kind}@${a.tSec}`);
+
+describe('detectTrackAnomalies', () => {
+  it('accepts a plausible walk', () => {
+    expect(kinds([
+      { tSec: 0, angleDeg: 90, radiusFactor: 0.5 },
+      { tSec: 10, angleDeg: 100, radiusFactor: 0.6 },
+    ])).toEqual([]);
+  });
+
+  it('flags angular and radial jumps', () => {
+    expect(kinds([
+      { tSec: 0, angleDeg: 130, radiusFactor: 0.5 },
+      { tSec: 5, angleDeg: 310, radiusFactor: 0.5 },
+      { tSec: 7, angleDeg: 310, radiusFactor: 0.9 },
+    ])).toEqual(['angularSpeed@5', 'radialSpeed@7']);
+  });
+
+  it('ignores walking in and out of the room when measuring speed', () => {
+    expect(kinds([
+      { tSec: 0, angleDeg: 0, radiusFactor: 1.08, bench: 'EXIT' },
+      { tSec: 1, angleDeg: 180, radiusFactor: 0.1 },
+      { tSec: 2, angleDeg: 0, radiusFactor: 1.08 },
+    ])).toEqual([]);
+  });
+
+  it('flags rows that go back in time in file order', () => {
+    expect(kinds([
+      { tSec: 5, line: 3, angleDeg: 90, radiusFactor: 0.5 },
+      { tSec: 10, line: 2, angleDeg: 90, radiusFactor: 0.5 },
+    ])).toEqual(['nonMonotonic@5']);
+  });
+
+  it('flags coming back after an exit, but not arriving', () => {
+    expect(kinds([
+      { tSec: 0, bench: 'EXIT' },
+      { tSec: 10, angleDeg: 0, radiusFactor: 0.9 },
+      { tSec: 20, bench: 'EXIT' },
+      { tSec: 30, bench: 'EXIT' },
+      { tSec: 40, angleDeg: 0, radiusFactor: 0.9 },
+    ])).toEqual(['reappearAfterExit@40']);
+  });
+
+  it('flags seats off their bench arc, ends included as on it', () => {
+    expect(kinds([
+      { tSec: 0, angleDeg: 72, radiusFactor: 0.92, bench: 'T2' },
+      { tSec: 100, angleDeg: 108, radiusFactor: 0.92, bench: 'T2' },
+      { tSec: 200, angleDeg: 110, radiusFactor: 0.92, bench: 'T2' },
+    ])).toEqual(['benchArc@200']);
+  });
+
+  it('checks seats at their recorded angle, not their seat', () => {
+    expect(kinds([{ tSec: 0, angleDeg: 76.5, recordedAngleDeg: 50, radiusFactor: 0.92, bench: 'T2' }])).toEqual([
+      'benchArc@0',
+    ]);
+  });
+
+  it('flags standing in or walking through an obstacle', () => {
+    const room: RoomGeometry = {
+      ...ROOM,
+      obstacles: [{ id: 'pillar', label: 'Pillar', kind: 'circle', center: { angleDeg: 180, radiusFactor: 0.5 }, radius: 0.1 }],
+    };
+    const anomalies = detectTrackAnomalies({
+      P1: [
+        { tSec: 0, angleDeg: 180, radiusFactor: 0.2 },
+        { tSec: 10, angleDeg: 180, radiusFactor: 0.8 },
+        { tSec: 20, angleDeg: 180, radiusFactor: 0.5 },
+      ],
+    }, room);
+    expect(anomalies.map((a) => `${a.kind}@${a.tSec}`)).toEqual(['obstacle@10', 'obstacle@20']);
+    expect(anomalies[1].message).toBe('inside Pillar');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Track anomalies - plausibility checks over csvPositions
+ *
+ * Hand-entered rows often contain typos (an angle of 310 instead of 130)
+ * that make a person jump across the room in one interval. This pass flags:
+ * - implausible tangential (angular) or radial speed between two samples
+ * - times that go backwards in file order
+ * - a person reappearing after an EXIT row (rows before their first in-room
+ *   sample are arrivals, not exits)
+ * - seated rows whose angle falls outside their bench's arc (ends included)
+ * - positions inside an obstacle, or movement straight through one
+ * Exited samples (bench EXIT or beyond the room's exitRadiusFactor) are
+ * outside the room and never count towards speeds.
+ */
+
+import { arcLengthM, getActiveRoom, isAngleInArc, toMetres, type RoomGeometry } from './roomGeometry';
+import { normalizeAngle, shortestAngleDist } from './interpolation';
+import { isOutsideSample } from './doorways';
+import { firstObstacleHit, obstacleAt } from './obstacles';
+import type { CSVSample } from './usePeoplePlaybackStore';
+
+export type AnomalyKind =
+  | 'angularSpeed'
+  | 'radialSpeed'
+  | 'nonMonotonic'
+  | 'reappearAfterExit'
+  | 'benchArc'
+  | 'obstacle';
+
+export const ANOMALY_LABELS: Record<AnomalyKind, string> = {
+  angularSpeed: 'Angular jump',
+  radialSpeed: 'Radial jump',
+  nonMonotonic: 'Time goes backwards',
+  reappearAfterExit: 'Back after EXIT',
+  benchArc: 'Outside bench arc',
+  obstacle: 'Through obstacle',
+};
+
+export interface TrackAnomaly {
+  personId: string;
+  kind: AnomalyKind;
+  tSec: number; // time of the flagged sample
+  line?: number; // CSV line of the flagged sample
+  angleDeg?: number;
+  radiusFactor?: number;
+  message: string;
+}
+
+export interface AnomalyThresholds {
+  maxTangentialSpeed: number; // radiusFactor units per second along the arc
+  maxRadialSpeed: number; // radiusFactor units per second towards/away from the centre
+}
+
+// About 2× the fastest walking observed in the reference session
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  maxTangentialSpeed: 0.2,
+  maxRadialSpeed: 0.15,
+};
+
+// Slack at either end of a bench arc, degrees (seats recorded right on an end are on the bench)
+const BENCH_ARC_TOLERANCE_DEG = 0.5;
+
+// Helper: sample has a full position
+const hasPosition = (s: CSVSample): boolean => s.angleDeg !== undefined && s.radiusFactor !== undefined;
+
+// Helper: position of a sample that has one
+const polarOf = (s: CSVSample) => ({ angleDeg: s.angleDeg!, radiusFactor: s.radiusFactor! });
+
+// Helper: anomaly located at a sample
+const at = (personId: string, s: CSVSample, kind: AnomalyKind, message: string): TrackAnomaly => ({
+  personId,
+  kind,
+  tSec: s.tSec,
+  line: s.line,
+  angleDeg: s.angleDeg,
+  radiusFactor: s.radiusFactor,
+  message,
+});
+
+/**
+ * Check one person's samples (sorted by tSec, as in csvPositions)
+ */
+const detectPersonAnomalies = (
+  personId: string,
+  samples: CSVSample[],
+  room: RoomGeometry,
+  thresholds: AnomalyThresholds
+): TrackAnomaly[] => {
+  const anomalies: TrackAnomaly[] = [];
+  const benches = new Map(room.benches.map((b) => [b.id, b]));
+
+  // Check angles as recorded, not as snapped to bench seats
+  samples = samples.map((s) => (s.recordedAngleDeg === undefined ? s : { ...s, angleDeg: s.recordedAngleDeg }));
+
+  // Non-monotonic times: in file order, a row earlier than one above it
+  const byLine = samples.filter((s) => s.line !== undefined).sort((a, b) => a.line! - b.line!);
+  let latest: CSVSample | null = null;
+  for (const s of byLine) {
+    if (latest && s.tSec < latest.tSec) {
+      anomalies.push(at(personId, s, 'nonMonotonic', `t=${s.tSec}s comes after t=${latest.tSec}s (line ${latest.line})`));
+    } else {
+      latest = s;
+    }
+  }
+
+  let seenInRoom = false;
+  let exitedAt: CSVSample | null = null;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i];
+
+    // Seated rows must sit within their bench's arc
+    const bench = s.bench ? benches.get(s.bench) : undefined;
+    if (bench && s.angleDeg !== undefined) {
+      const start = normalizeAngle(bench.startDeg - BENCH_ARC_TOLERANCE_DEG);
+      const end = normalizeAngle(bench.endDeg + BENCH_ARC_TOLERANCE_DEG);
+      if (!isAngleInArc(s.angleDeg, start, end)) {
+        anomalies.push(at(personId, s, 'benchArc', `${s.angleDeg}° is outside bench ${s.bench}`));
+      }
+    }
+
+    // Nobody stands inside fixed furniture
+    const blocking = hasPosition(s) && !isOutsideSample(s, room) ? obstacleAt(polarOf(s), room) : null;
+    if (blocking) {
+      anomalies.push(at(personId, s, 'obstacle', `inside ${blocking.label || blocking.id}`));
+    }
+
+    // EXIT followed by an in-room sample
+    if (isOutsideSample(s, room)) {
+      if (seenInRoom) exitedAt = exitedAt ?? s;
+    } else if (hasPosition(s)) {
+      if (exitedAt) {
+        anomalies.push(at(personId, s, 'reappearAfterExit', `back in the room after exiting at t=${exitedAt.tSec}s`));
+        exitedAt = null;
+      }
+      seenInRoom = true;
+    }
+
+    // Between consecutive in-room samples
+    const prev = samples[i - 1];
+    if (!prev || !hasPosition(prev) || !hasPosition(s) || isOutsideSample(prev, room) || isOutsideSample(s, room)) continue;
+    const dt = s.tSec - prev.tSec;
+    if (dt <= 0) continue;
+
+    // Walking through an obstacle (neither sample inside it)
+    const hit = !blocking && !obstacleAt(polarOf(prev), room) && firstObstacleHit(polarOf(prev), polarOf(s), room);
+    if (hit) {
+      anomalies.push(
+        at(personId, s, 'obstacle', `walks through ${hit.obstacle.label || hit.obstacle.id} since t=${prev.tSec}s`)
+      );
+    }
+
+    const dAngle = Math.abs(shortestAngleDist(prev.angleDeg!, s.angleDeg!));
+    const tangential = ((dAngle * Math.PI) / 180) * Math.min(prev.radiusFactor!, s.radiusFactor!);
+    if (tangential / dt > thresholds.maxTangentialSpeed) {
+      const mps = arcLengthM(prev.angleDeg!, s.angleDeg!, Math.min(prev.radiusFactor!, s.radiusFactor!), room) / dt;
+      anomalies.push(
+        at(
+          personId,
+          s,
+          'angularSpeed',
+          `${prev.angleDeg}° → ${s.angleDeg}° in ${dt}s (${(dAngle / dt).toFixed(1)}°/s, ${mps.toFixed(1)} m/s)`
+        )
+      );
+    }
+
+    const radial = Math.abs(s.radiusFactor! - prev.radiusFactor!) / dt;
+    if (radial > thresholds.maxRadialSpeed) {
+      anomalies.push(
+        at(
+          personId,
+          s,
+          'radialSpeed',
+          `radius ${prev.radiusFactor} → ${s.radiusFactor} in ${dt}s (${toMetres(radial, room).toFixed(1)} m/s)`
+        )
+      );
+    }
+  }
+
+  return anomalies;
+};
+
+/**
+ * Check every person's track; results are sorted by time
+ */
+export const detectTrackAnomalies = (
+  csvPositions: Record<string, CSVSample[]>,
+  room: RoomGeometry = getActiveRoom(),
+  thresholds: AnomalyThresholds = DEFAULT_ANOMALY_THRESHOLDS
+): TrackAnomaly[] =>
+  Object.entries(csvPositions)
+    .flatMap(([personId, samples]) => detectPersonAnomalies(personId, samples, room, thresholds))
+    .sort((a, b) => a.tSec - b.tSec || a.personId.localeCompare(b.personId));
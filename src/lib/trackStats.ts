@@ -0,0 +1,46 @@
+/**
+ * Track stats - how far and how fast one person moved, in metres and m/s
+ *
+ * Distances are straight lines between consecutive in-room samples (as
+ * recorded, before seat snapping), scaled by the room's radiusM. Time in the
+ * room counts the gaps between those samples; time outside never does.
+ */
+
+import { speedMps, chordDistanceM, type RoomGeometry } from './roomGeometry';
+import { isOutsideSample } from './doorways';
+import type { CSVSample } from './usePeoplePlaybackStore';
+
+export interface TrackStats {
+  distanceM: number; // total walked
+  timeInRoomSec: number;
+  meanSpeedMps: number; // distanceM / timeInRoomSec
+  peakSpeedMps: number; // fastest single step between samples
+  samples: number; // in-room samples with a position
+}
+
+/**
+ * Distance, time in the room and speeds for one person's samples (sorted by tSec)
+ */
+export const summarizeTrack = (samples: CSVSample[], room: RoomGeometry): TrackStats => {
+  const stats: TrackStats = { distanceM: 0, timeInRoomSec: 0, meanSpeedMps: 0, peakSpeedMps: 0, samples: 0 };
+  let prev: { angleDeg: number; radiusFactor: number; tSec: number } | null = null;
+
+  for (const s of samples) {
+    const angleDeg = s.recordedAngleDeg ?? s.angleDeg;
+    if (angleDeg === undefined || s.radiusFactor === undefined || isOutsideSample(s, room)) {
+      prev = null; // a stay ends at every exit or gap in the position
+      continue;
+    }
+    const point = { angleDeg, radiusFactor: s.radiusFactor, tSec: s.tSec };
+    stats.samples++;
+    if (prev) {
+      stats.distanceM += chordDistanceM(prev, point, room);
+      stats.timeInRoomSec += point.tSec - prev.tSec;
+      stats.peakSpeedMps = Math.max(stats.peakSpeedMps, speedMps(prev, point, room) ?? 0);
+    }
+    prev = point;
+  }
+
+  stats.meanSpeedMps = stats.timeInRoomSec > 0 ? stats.distanceM / stats.timeInRoomSec : 0;
+  return stats;
+};
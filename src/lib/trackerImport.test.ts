@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { convertCartesianCSV, isCartesianCSV, trackerToPolar } from './trackerImport';
+import { parseCSV } from './positionsCsv';
+
+const polar = (x: number, y: number, calibration: Parameters<typeof trackerToPolar>[2]) => {
+  const { angleDeg, radiusFactor } = trackerToPolar(x, y, calibration);
+  return [Number(angleDeg.toFixed(6)), Number(radiusFactor.toFixed(6))];
+};
+
+describe('trackerToPolar', () => {
+  it('measures angles counter-clockwise from +x and radius against the rim', () => {
+    const calibration = { roomRadiusM: 6 };
+    expect(polar(3, 0, calibration)).toEqual([0, 0.5]);
+    expect(polar(0, 6, calibration)).toEqual([90, 1]);
+    expect(polar(-3, -3, calibration)).toEqual([225, Number((Math.SQRT2 / 2).toFixed(6))]);
+  });
+
+  it('measures from the calibrated origin', () => {
+    expect(polar(12, 4, { roomRadiusM: 4, originX: 10, originY: 4 })).toEqual([0, 0.5]);
+  });
+
+  it('flips y when the tracker counts it downwards', () => {
+    // Image-style coordinates: +y points down, so (0, 2) below the centre is 270°
+    expect(polar(0, 2, { roomRadiusM: 4, yAxis: 'down' })).toEqual([270, 0.5]);
+    expect(polar(5, 1, { roomRadiusM: 4, originX: 5, originY: 3, yAxis: 'down' })).toEqual([90, 0.5]);
+  });
+
+  it('rotates counter-clockwise and wraps into [0, 360)', () => {
+    expect(polar(0, 2, { roomRadiusM: 4, rotationDeg: 30 })).toEqual([120, 0.5]);
+    expect(polar(2, 0, { roomRadiusM: 4, rotationDeg: -90 })).toEqual([270, 0.5]);
+    expect(polar(0, -2, { roomRadiusM: 4, rotationDeg: 180 })).toEqual([90, 0.5]);
+  });
+});
+
+describe('convertCartesianCSV', () => {
+  const tracker = 'personId,tSec,X (m),y_m,bench\nP1,0,3,0,\nP1,1,,,EXIT\nP2,0,abc,0,\n';
+
+  it('is only used for CSVs with x and y columns and no angle column', () => {
+    expect(isCartesianCSV(tracker)).toBe(true);
+    expect(isCartesianCSV('personId,tSec,angleDeg,x,y\n')).toBe(false);
+    expect(isCartesianCSV('personId,tSec,x\n')).toBe(false);
+  });
+
+  it('rewrites x/y as angleDeg/radiusFactor and passes other columns through', () => {
+    const { csvText, invalidRows } = convertCartesianCSV(tracker, { roomRadiusM: 6, rotationDeg: 90 });
+    expect(parseCSV(csvText).map((r) => r.fields)).toEqual([
+      ['personId', 'tSec', 'angleDeg', 'radiusFactor', 'bench'],
+      ['P1', '0', '90', '0.5', ''],
+      ['P1', '1', '', '', 'EXIT'],
+      ['P2', '0', '', '', ''],
+    ]);
+    expect(invalidRows).toEqual([{ line: 4, column: 'x', value: 'abc' }]);
+  });
+
+  it('leaves CSVs without x/y columns unchanged', () => {
+    const csv = 'personId,tSec,angleDeg\nP1,0,90\n';
+    expect(convertCartesianCSV(csv, { roomRadiusM: 6 })).toEqual({ csvText: csv, invalidRows: [] });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tracker import - Cartesian x/y tracker output → positions CSV
+ *
+ * The automated tracker writes positions in metres relative to the room
+ * centre. Rows are converted into the polar convention of roomGeometry
+ * (0° = right, counter-clockwise, radiusFactor 1.0 = rim) and written back as
+ * a positions CSV, so the rest of the pipeline (validation, library, layers)
+ * is unchanged. Every other column passes through as-is.
+ */
+
+import { cartesianToPolar } from './roomGeometry';
+import { headerKey, parseCSV, resolveHeaders, serializeCSV } from './positionsCsv';
+
+/**
+ * How tracker coordinates line up with the room (session.json `tracker`)
+ */
+export interface TrackerCalibration {
+  roomRadiusM: number; // metres from the room centre to the rim
+  originX?: number; // tracker coordinates of the room centre, metres (default 0)
+  originY?: number;
+  rotationDeg?: number; // added to tracker angles, counter-clockwise (default 0)
+  yAxis?: 'up' | 'down'; // direction of the tracker's +y (default up)
+}
+
+export interface TrackerConversion {
+  csvText: string;
+  invalidRows: { line: number; column: 'x' | 'y'; value: string }[];
+}
+
+// Header aliases for the Cartesian columns (same normalization as positionsCsv)
+const X_ALIASES = ['x', 'xm', 'posx', 'xmetres', 'xmeters'];
+const Y_ALIASES = ['y', 'ym', 'posy', 'ymetres', 'ymeters'];
+
+// Helper: column index of the first header matching an alias, -1 if none
+const findColumn = (headers: string[], aliases: string[]): number =>
+  headers.findIndex((h) => aliases.includes(headerKey(h)));
+
+// Helper: number → compact decimal text ("12.5", not "12.500000001")
+const formatNumber = (value: number, digits: number): string => String(Number(value.toFixed(digits)));
+
+/**
+ * Whether a CSV holds Cartesian tracker output (x and y columns, no angle column)
+ */
+export const isCartesianCSV = (csvText: string): boolean => {
+  const [header] = parseCSV(csvText);
+  if (!header) return false;
+  const { columns } = resolveHeaders(header.fields);
+  return (
+    columns.angleDeg === undefined &&
+    findColumn(header.fields, X_ALIASES) !== -1 &&
+    findColumn(header.fields, Y_ALIASES) !== -1
+  );
+};
+
+/**
+ * Tracker metres → room polar position
+ */
+export const trackerToPolar = (
+  x: number,
+  y: number,
+  calibration: TrackerCalibration
+): { angleDeg: number; radiusFactor: number } => {
+  const { roomRadiusM, originX = 0, originY = 0, rotationDeg = 0, yAxis = 'up' } = calibration;
+  const dx = x - originX;
+  const dy = yAxis === 'down' ? originY - y : y - originY;
+  const { radius, angleDeg } = cartesianToPolar(dx, dy);
+  return {
+    angleDeg: (((angleDeg + rotationDeg) % 360) + 360) % 360,
+    radiusFactor: radius / roomRadiusM,
+  };
+};
+
+/**
+ * Rewrite a Cartesian tracker CSV as a positions CSV
+ * The x column becomes angleDeg and y becomes radiusFactor; rows keep their
+ * order. Rows with non-numeric x/y keep an empty position and are listed in
+ * `invalidRows`.
+ */
+export const convertCartesianCSV = (
+  csvText: string,
+  calibration: TrackerCalibration
+): TrackerConversion => {
+  const [header, ...rows] = parseCSV(csvText);
+  const invalidRows: TrackerConversion['invalidRows'] = [];
+  if (!header) return { csvText, invalidRows };
+
+  const xIdx = findColumn(header.fields, X_ALIASES);
+  const yIdx = findColumn(header.fields, Y_ALIASES);
+  if (xIdx === -1 || yIdx === -1) return { csvText, invalidRows };
+
+  const headerOut = [...header.fields];
+  headerOut[xIdx] = 'angleDeg';
+  headerOut[yIdx] = 'radiusFactor';
+
+  const rowsOut = rows.map(({ line, fields }) => {
+    const out = [...fields];
+    const rawX = (fields[xIdx] ?? '').trim();
+    const rawY = (fields[yIdx] ?? '').trim();
+    const x = rawX === '' ? NaN : Number(rawX);
+    const y = rawY === '' ? NaN : Number(rawY);
+
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      const { angleDeg, radiusFactor } = trackerToPolar(x, y, calibration);
+      out[xIdx] = formatNumber(angleDeg, 2);
+      out[yIdx] = formatNumber(radiusFactor, 4);
+    } else {
+      // Blank x/y is an unpositioned sample; anything else is an error
+      if (rawX !== '' && !Number.isFinite(x)) invalidRows.push({ line, column: 'x', value: rawX });
+      if (rawY !== '' && !Number.isFinite(y)) invalidRows.push({ line, column: 'y', value: rawY });
+      if (xIdx < out.length) out[xIdx] = '';
+      if (yIdx < out.length) out[yIdx] = '';
+    }
+    return out;
+  });
+
+  return { csvText: serializeCSV([headerOut, ...rowsOut]), invalidRows };
+};
@@ -1,4 +1,37 @@
-import { create } from 'zustand';
+import { create, createStore, type StateCreator } from 'zustand';
+import { parsePositionsCSV, type CSVImportReport } from './positionsCsv';
+import { fetchDataFile, type DataFileError } from './dataSchemas';
+import { getSession, updateSessionManifest, updateSessionRoom, type SessionSummary } from './sessionLibrary';
+import { ROOM, normalizeRoomGeometry, setActiveRoom, type RoomGeometry } from './roomGeometry';
+import { buildMotionTimeline, motionTimelineFromSchedule, type MotionTimeline } from './motionStates';
+import { keyMomentTimes, smartSpeedAt, stopAtKeyMoment } from './smartSpeed';
+import { deriveSessionEvents, type SessionEvent } from './sessionEvents';
+import { detectTrackAnomalies, type TrackAnomaly } from './trackAnomalies';
+import { assignSeats, type BenchOccupancy } from './benchSeats';
+import { isOutside, nearestDoorway } from './doorways';
+import {
+  buildPlaybackIndex,
+  sampleIndexAt,
+  sampleKeyAt,
+  type PersonPlaybackIndex,
+  type PlaybackIndex,
+} from './playbackIndex';
+import {
+  EMPTY_SESSION_CLOCK,
+  parseClockTime,
+  resolveSessionClock,
+  type SessionClock,
+  type SessionManifest,
+} from './sessionClock';
+import {
+  DEFAULT_INTERPOLATION,
+  interpolatePolar,
+  interpolateTrack,
+  lastIndexAtOrBefore,
+  modeForPerson,
+  type InterpolationMode,
+  type InterpolationSettings,
+} from './interpolation';
 
 export interface PersonBase {
   id: string;
@@ -18,6 +51,9 @@ export interface CSVSample {
   bench?: string;
   notes?: string;
   motion?: string;
+  line?: number; // source line in the positions CSV
+  seat?: number; // seat on its bench (see benchSeats)
+  recordedAngleDeg?: number; // angle as recorded, when angleDeg was snapped to a seat
 }
 
 export interface TimelinePoint {
@@ -38,93 +74,130 @@ export interface PersonState extends PersonBase {
   currentRadiusFactor: number;
   currentAction: string;
   isVisible: boolean;
-  pathHistory: { angleDeg: number; radiusFactor: number; t: number }[];
+  pathHistory: readonly { angleDeg: number; radiusFactor: number; t: number }[];
+  pathLength: number; // points of pathHistory travelled so far (CSV people share their whole path)
+  enteredVia?: string; // doorway id the person came in through (unset if present from the start)
+  exitedVia?: string; // doorway id the person is leaving through, once on the way out
+}
+
+export interface MotionInterval {
+  interval: string;
+  tA: number;
+  tB: number;
+  STILL: string[];
+  MOVING: string[];
+}
+
+export interface LoopRange {
+  startSec: number; // A
+  endSec: number; // B
+}
+
+export interface SessionImport {
+  csvText: string;
+  peopleBase?: PersonBase[];
+  motionSchedule?: MotionInterval[];
+  manifest?: SessionManifest;
+  roomGeometry?: RoomGeometry; // defaults to the built-in ROOM
 }
 
 interface PeoplePlaybackStore {
   timeSec: number;
   isPlaying: boolean;
+  loop: boolean; // wrap to the start at the end instead of stopping
+  loopRange: LoopRange | null; // A–B range playback repeats while inside it
   speed: number;
+  reverse: boolean; // play backwards
+  smartSpeed: boolean; // skim quiet stretches, 1× around key moments (see smartSpeed)
+  sessionEvents: SessionEvent[]; // entries, exits, bench changes, motion changes and notes, by time
+  keyMoments: number[]; // entry, exit and bench-change times in csvPositions, ascending
   durationSec: number;
+  sampleStepSec: number; // finest sampling step in csvPositions (sub-second sessions < 1)
+  sampleTimes: number[]; // distinct sample times in csvPositions, ascending (for stepping)
   peopleBase: PersonBase[];
   timeline: TimelinePerson[];
   peopleAtTime: PersonState[];
   csvPositions: Record<string, CSVSample[]> | null;
+  playbackIndex: PlaybackIndex | null; // per-person lookups over csvPositions for computePeopleAtTime
   peopleMeta: Record<string, { color: string; posture: string; words: string }>;
+  csvReport: CSVImportReport | null;
+  motionSchedule: MotionInterval[] | null; // imported motion_schedule.json, if any
+  motionScheduleSource: 'file' | 'derived' | null; // 'derived' = built from csvPositions
+  motionTimeline: MotionTimeline | null; // per-person STILL/MOVING changes (schedule file, else csvPositions)
+  sessionKey: number; // bumped on every import so layers drop accumulated state
+  dataErrors: DataFileError[];
+  activeSession: SessionSummary | null; // library session currently loaded, if any
+  sessionManifest: SessionManifest | null;
+  sessionClock: SessionClock;
+  interpolation: InterpolationSettings;
+  trackAnomalies: TrackAnomaly[]; // implausible samples in csvPositions, by time
+  roomGeometry: RoomGeometry; // layout of the loaded session
+  benchOccupancy: BenchOccupancy; // occupied seats per bench over time
+  showGridLabels: boolean; // sector/ring/cardinal labels and the coordinate crosshair
+  selectedPersonId: string | null; // person picked in the swimlanes, ringed on the grid
   
   // Actions
   play: () => void;
   pause: () => void;
+  togglePlay: () => void;
+  setLoop: (loop: boolean) => void;
+  setLoopRange: (range: LoopRange | null) => void;
   setTime: (t: number) => void;
+  stepSample: (direction: 1 | -1) => void;
+  stepBy: (seconds: number) => void;
   setSpeed: (speed: number) => void;
+  setReverse: (reverse: boolean) => void;
+  setSmartSpeed: (smart: boolean) => void;
   loadData: () => Promise<void>;
-  loadCSVData: (csvText: string) => void;
+  loadCSVData: (csvText: string) => CSVImportReport | null;
+  loadPeopleMeta: (peopleBase: PersonBase[]) => void;
+  importSession: (session: SessionImport) => CSVImportReport | null;
+  loadSession: (id: string) => Promise<boolean>;
+  setActiveSession: (session: SessionSummary | null) => void;
+  dismissCSVReport: () => void;
+  reportDataError: (error: DataFileError) => void;
+  dismissDataErrors: () => void;
+  setInterpolation: (settings: Partial<InterpolationSettings>) => void;
+  setRoomGeometry: (room: RoomGeometry) => void;
+  setShowGridLabels: (show: boolean) => void;
+  setSelectedPersonId: (personId: string | null) => void;
   tick: (deltaTime: number) => void;
   computePeopleAtTime: () => void;
 }
 
-// Helper: normalize angle to [0, 360)
-const normalizeAngle = (angle: number): number => {
-  const normalized = angle % 360;
-  return normalized < 0 ? normalized + 360 : normalized;
-};
+// Metadata for people missing from peopleMeta
+const DEFAULT_PERSON_META = { color: '#888888', posture: 'standing', words: '' };
 
-// Helper: shortest angular distance (handles 360° wrap)
-const shortestAngleDist = (from: number, to: number): number => {
-  const diff = to - from;
-  const normalized = ((diff + 180) % 360) - 180;
-  return normalized < -180 ? normalized + 360 : normalized;
-};
+// Helper: interpolate a person's position from sample i (last sample at or before t) towards the next
+// Walking out through a doorway, the exit route replaces the way to the next sample.
+const interpolateCSVPosition = (
+  person: PersonPlaybackIndex,
+  i: number,
+  t: number,
+  mode: InterpolationMode,
+  holdWithinSec: number
+) => {
+  const before = sampleKeyAt(person, i);
+  if (!before) return null;
 
-// Helper: interpolate position between two CSV samples
-const interpolateCSVPosition = (before: CSVSample, after: CSVSample, t: number) => {
-  if (before.tSec === after.tSec) return before;
-  
-  const ratio = (t - before.tSec) / (after.tSec - before.tSec);
-  
-  let angleDeg = before.angleDeg;
-  if (before.angleDeg !== undefined && after.angleDeg !== undefined) {
-    const dist = shortestAngleDist(before.angleDeg, after.angleDeg);
-    angleDeg = normalizeAngle(before.angleDeg + dist * ratio);
-  }
-  
-  let radiusFactor = before.radiusFactor;
-  if (before.radiusFactor !== undefined && after.radiusFactor !== undefined) {
-    radiusFactor = before.radiusFactor + (after.radiusFactor - before.radiusFactor) * ratio;
+  const exitRoute = person.exitRoute[i];
+  if (exitRoute) {
+    // Step and holdWithin only show the route's ends: its waypoints were never recorded
+    const keys = mode === 'linear' || mode === 'catmullRom' ? exitRoute : [exitRoute[0], exitRoute[exitRoute.length - 1]];
+    const k = Math.max(0, lastIndexAtOrBefore(keys, t, (key) => key.t));
+    const prev = keys[k - 1] ?? sampleKeyAt(person, i - 1);
+    return interpolatePolar(prev, keys[k], keys[k + 1] ?? null, keys[k + 2] ?? null, t, mode, holdWithinSec);
   }
-  
-  return {
-    tSec: t,
-    angleDeg,
-    radiusFactor,
-    bench: before.bench,
-    notes: before.notes || after.notes,
-  };
-};
 
-// Helper: interpolate position between two timeline points
-const interpolatePosition = (track: TimelinePoint[], t: number) => {
-  if (track.length === 0) return null;
-  
-  let before = track[0];
-  let after = track[track.length - 1];
-  
-  for (let i = 0; i < track.length - 1; i++) {
-    if (track[i].t <= t && track[i + 1].t >= t) {
-      before = track[i];
-      after = track[i + 1];
-      break;
-    }
-  }
-  
-  if (before === after) return before;
-  
-  const ratio = (t - before.t) / (after.t - before.t);
-  return {
-    angleDeg: before.angleDeg + (after.angleDeg - before.angleDeg) * ratio,
-    radiusFactor: before.radiusFactor + (after.radiusFactor - before.radiusFactor) * ratio,
-    action: before.action,
-  };
+  return interpolatePolar(
+    sampleKeyAt(person, i - 1),
+    before,
+    sampleKeyAt(person, i + 1),
+    sampleKeyAt(person, i + 2),
+    t,
+    mode,
+    holdWithinSec
+  );
 };
 
 // Helper: get path history up to time t
@@ -275,23 +348,72 @@ const augmentTimeline = (timeline: TimelinePerson[]): TimelinePerson[] => {
   return augmented;
 };
 
-export const usePeoplePlaybackStore = create<PeoplePlaybackStore>((set, get) => ({
+const playbackStore: StateCreator<PeoplePlaybackStore> = (set, get) => ({
   timeSec: 0,
-  isPlaying: true, // Always playing, but keep property for backwards compatibility
+  isPlaying: true, // Sessions start playing on load
+  loop: false,
+  loopRange: null,
   speed: 1,
+  reverse: false,
+  smartSpeed: false,
+  sessionEvents: [],
+  keyMoments: [],
   durationSec: 300,
+  sampleStepSec: 1,
+  sampleTimes: [],
   peopleBase: [],
   timeline: [],
   peopleAtTime: [],
   csvPositions: null,
+  playbackIndex: null,
   peopleMeta: {},
+  csvReport: null,
+  motionSchedule: null,
+  motionScheduleSource: null,
+  motionTimeline: null,
+  sessionKey: 0,
+  dataErrors: [],
+  activeSession: null,
+  sessionManifest: null,
+  sessionClock: EMPTY_SESSION_CLOCK,
+  interpolation: DEFAULT_INTERPOLATION,
+  trackAnomalies: [],
+  roomGeometry: ROOM,
+  benchOccupancy: {},
+  showGridLabels: false,
+  selectedPersonId: null,
 
   play: () => {
-    // No-op, always playing
+    // Playing from the final frame starts over (from the end when reversed)
+    const { timeSec, durationSec, reverse } = get();
+    if (!reverse && timeSec >= durationSec) get().setTime(0);
+    if (reverse && timeSec <= 0) get().setTime(durationSec);
+    set({ isPlaying: true });
   },
 
   pause: () => {
-    // No-op, always playing
+    set({ isPlaying: false });
+  },
+
+  togglePlay: () => {
+    if (get().isPlaying) get().pause();
+    else get().play();
+  },
+
+  setLoop: (loop: boolean) => {
+    set({ loop });
+  },
+
+  // Ordered and clamped to the session; empty ranges clear it
+  setLoopRange: (range: LoopRange | null) => {
+    if (!range) {
+      set({ loopRange: null });
+      return;
+    }
+    const { durationSec } = get();
+    const startSec = Math.max(0, Math.min(durationSec, Math.min(range.startSec, range.endSec)));
+    const endSec = Math.max(0, Math.min(durationSec, Math.max(range.startSec, range.endSec)));
+    set({ loopRange: endSec > startSec ? { startSec, endSec } : null });
   },
 
   setTime: (t: number) => {
@@ -301,18 +423,73 @@ export const usePeoplePlaybackStore = create<PeoplePlaybackStore>((set, get) =>
     get().computePeopleAtTime();
   },
 
+  // Pause on the next/previous sample time (or one sampling step without samples)
+  stepSample: (direction: 1 | -1) => {
+    const { timeSec, sampleTimes, sampleStepSec } = get();
+    set({ isPlaying: false });
+    if (sampleTimes.length === 0) {
+      get().setTime(timeSec + direction * sampleStepSec);
+      return;
+    }
+    const epsilon = 1e-6;
+    const target =
+      direction > 0
+        ? sampleTimes.find((t) => t > timeSec + epsilon)
+        : [...sampleTimes].reverse().find((t) => t < timeSec - epsilon);
+    get().setTime(target ?? (direction > 0 ? get().durationSec : 0));
+  },
+
+  stepBy: (seconds: number) => {
+    set({ isPlaying: false });
+    get().setTime(get().timeSec + seconds);
+  },
+
   setSpeed: (speed: number) => {
     set({ speed });
   },
 
+  setReverse: (reverse: boolean) => {
+    set({ reverse });
+  },
+
+  setSmartSpeed: (smart: boolean) => {
+    set({ smartSpeed: smart });
+  },
+
   tick: (deltaTime: number) => {
-    const { timeSec, speed, durationSec } = get();
+    const { timeSec, speed, durationSec, isPlaying, loop, loopRange, reverse, smartSpeed, motionTimeline, keyMoments } =
+      get();
+    if (!isPlaying) return;
+    
+    const rate = smartSpeed ? smartSpeedAt(timeSec, speed, motionTimeline, keyMoments) : speed;
+    let newTime = timeSec + deltaTime * rate * (reverse ? -1 : 1);
+    if (smartSpeed) newTime = stopAtKeyMoment(timeSec, newTime, keyMoments);
     
-    // Stop at end, don't loop
-    let newTime = timeSec + deltaTime * speed;
-    if (newTime >= durationSec) {
-      newTime = durationSec;
-      console.log('[TIME] Reached end, staying at final frame');
+    // Inside the A–B range go round it, whatever the loop toggle says; at
+    // the session's ends loop round, or stop on the first/final frame
+    const inRange = loopRange && timeSec >= loopRange.startSec && timeSec <= loopRange.endSec;
+    if (inRange && (newTime > loopRange.endSec || newTime < loopRange.startSec)) {
+      const span = loopRange.endSec - loopRange.startSec;
+      const offset = (((newTime - loopRange.startSec) % span) + span) % span;
+      newTime = loopRange.startSec + offset;
+    } else if (reverse && newTime <= 0) {
+      if (loop && durationSec > 0) {
+        newTime = durationSec + (newTime % durationSec);
+        console.log('[TIME] Reached start, looping to end');
+      } else {
+        newTime = 0;
+        set({ isPlaying: false });
+        console.log('[TIME] Reached start, paused on first frame');
+      }
+    } else if (newTime >= durationSec) {
+      if (loop && durationSec > 0) {
+        newTime %= durationSec;
+        console.log('[TIME] Reached end, looping to start');
+      } else {
+        newTime = durationSec;
+        set({ isPlaying: false });
+        console.log('[TIME] Reached end, paused on final frame');
+      }
     }
     
     set({ timeSec: newTime });
@@ -322,177 +499,281 @@ export const usePeoplePlaybackStore = create<PeoplePlaybackStore>((set, get) =>
   },
 
   loadData: async () => {
+    // A session imported while the defaults are loading wins
+    const { sessionKey } = get();
     try {
       // Load CSV positions
       const csvRes = await fetch('/data/positions.csv');
       const csvText = await csvRes.text();
       
-      // Load people metadata
-      const peopleRes = await fetch('/data/people.json');
-      const peopleBase: PersonBase[] = await peopleRes.json();
+      // Load and validate people metadata, the session manifest and the room layout
+      const [peopleResult, manifestResult, roomResult] = await Promise.all([
+        fetchDataFile('people', '/data/people.json'),
+        fetchDataFile('session', '/data/session.json'),
+        fetchDataFile('room', '/data/room.json'),
+      ]);
+      if (get().sessionKey !== sessionKey) return;
       
-      // Build metadata from peopleBase
-      const peopleMeta: Record<string, { color: string; posture: string; words: string }> = {};
-      peopleBase.forEach((person) => {
-        peopleMeta[person.id] = {
-          color: person.color,
-          posture: person.posture,
-          words: person.words,
-        };
+      // Motion schedule is derived from the CSV motion column
+      get().importSession({
+        csvText,
+        peopleBase: peopleResult.data ?? undefined,
+        manifest: manifestResult.data ?? undefined,
+        roomGeometry: roomResult.data ?? undefined,
       });
       
-      set({ peopleBase, peopleMeta });
-      
-      // Parse and load CSV data
-      get().loadCSVData(csvText);
+      if (peopleResult.error) get().reportDataError(peopleResult.error);
+      if (manifestResult.error) get().reportDataError(manifestResult.error);
+      if (roomResult.error) get().reportDataError(roomResult.error);
     } catch (err) {
       console.error('Failed to load data:', err);
     }
   },
 
-  loadCSVData: (csvText: string) => {
+  loadPeopleMeta: (peopleBase: PersonBase[]) => {
+    // Build metadata from peopleBase
+    const peopleMeta: Record<string, { color: string; posture: string; words: string }> = {};
+    peopleBase.forEach((person) => {
+      peopleMeta[person.id] = {
+        color: person.color,
+        posture: person.posture,
+        words: person.words,
+      };
+    });
+    
+    set({ peopleBase, peopleMeta });
+  },
+
+  importSession: ({ csvText, peopleBase, motionSchedule, manifest, roomGeometry }: SessionImport) => {
+    get().loadPeopleMeta(peopleBase ?? []);
+    setActiveRoom(roomGeometry ?? null);
+    set((state) => ({
+      roomGeometry: roomGeometry ?? ROOM,
+      // An explicit schedule wins; otherwise loadCSVData derives one
+      motionSchedule: motionSchedule ?? null,
+      motionScheduleSource: motionSchedule ? 'file' : null,
+      sessionManifest: manifest ?? null,
+      interpolation: { ...DEFAULT_INTERPOLATION, ...manifest?.interpolation },
+      sessionKey: state.sessionKey + 1,
+      dataErrors: [],
+      activeSession: null,
+      selectedPersonId: null,
+    }));
+    
+    // Parse and load CSV data (rewinds to 0s)
+    return get().loadCSVData(csvText);
+  },
+
+  loadSession: async (id: string) => {
     try {
-      const lines = csvText.trim().split('\n');
-      const headers = lines[0].split(',').map(h => h.trim());
+      const session = await getSession(id);
+      if (!session) return false;
       
-      const csvPositions: Record<string, CSVSample[]> = {};
-      let maxTime = 0;
+      get().importSession({
+        csvText: session.csvText,
+        peopleBase: session.peopleBase,
+        motionSchedule: session.motionSchedule ?? undefined,
+        // Library info (possibly edited since import) overrides the manifest's
+        manifest: {
+          ...session.manifest,
+          title: session.title,
+          date: session.date || undefined,
+          location: session.location,
+        },
+        // Sessions saved before exit zones existed get the defaults filled in
+        roomGeometry: session.roomGeometry ? normalizeRoomGeometry(session.roomGeometry) : undefined,
+      });
       
-      // Parse CSV rows
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(',').map(v => v.trim());
-        const row: Record<string, string> = {};
-        headers.forEach((h, idx) => {
-          row[h] = values[idx] || '';
-        });
-        
-        const personId = row.personId;
-        if (!personId) continue;
-        
-        const tSec = parseInt(row.tSec, 10);
-        if (isNaN(tSec)) continue;
-        
-        maxTime = Math.max(maxTime, tSec);
-        
-        const sample: CSVSample = { tSec };
-        
-        if (row.time) {
-          sample.time = String(row.time);
-        }
-        
-        if (row.angleDeg && row.angleDeg !== '') {
-          sample.angleDeg = normalizeAngle(parseFloat(row.angleDeg));
-        }
-        
-        if (row.radiusFactor && row.radiusFactor !== '') {
-          sample.radiusFactor = parseFloat(row.radiusFactor);
-        } else if (row.bench && ['T1', 'T2', 'L', 'R', 'B1', 'B2'].includes(row.bench)) {
-          // Default radiusFactor for bench seats
-          sample.radiusFactor = 0.92;
-        }
-        
-        if (row.bench) {
-          sample.bench = row.bench;
-        }
-        
-        if (row.notes) {
-          sample.notes = row.notes;
-        }
-        
-        if (row.motion) {
-          sample.motion = row.motion;
-        }
-        
-        if (!csvPositions[personId]) {
-          csvPositions[personId] = [];
-        }
-        csvPositions[personId].push(sample);
-      }
+      const { title, date, location, createdAt } = session;
+      set({ activeSession: { id, title, date, location, createdAt } });
+      return true;
+    } catch (err) {
+      console.error('Failed to load session:', err);
+      return false;
+    }
+  },
+
+  setActiveSession: (session: SessionSummary | null) => {
+    set({ activeSession: session });
+  },
+
+  loadCSVData: (csvText: string) => {
+    try {
+      // Absolute sample times are measured from the manifest start time when given
+      const startTime = get().sessionManifest?.startTime;
+      const parsed = parsePositionsCSV(csvText, {
+        room: get().roomGeometry,
+        clockOriginSec: startTime ? parseClockTime(startTime) : null,
+      });
+      const { durationSec, sampleStepSec, report } = parsed;
       
-      // Sort samples by tSec for each person
-      Object.keys(csvPositions).forEach((personId) => {
-        csvPositions[personId].sort((a, b) => a.tSec - b.tSec);
+      // Seated samples take a seat on their bench
+      const { csvPositions, occupancy } = assignSeats(parsed.csvPositions, get().roomGeometry);
+      const sessionEvents = deriveSessionEvents(csvPositions, get().roomGeometry);
+      
+      set({
+        csvPositions,
+        playbackIndex: buildPlaybackIndex(csvPositions, get().roomGeometry),
+        benchOccupancy: occupancy,
+        durationSec,
+        sampleStepSec,
+        sampleTimes: Array.from(new Set(Object.values(csvPositions).flatMap((samples) => samples.map((s) => s.tSec)))).sort(
+          (a, b) => a - b
+        ),
+        sessionEvents,
+        keyMoments: keyMomentTimes(sessionEvents),
+        loopRange: null,
+        timeSec: 0,
+        isPlaying: true,
+        csvReport: report,
+        trackAnomalies: detectTrackAnomalies(csvPositions, get().roomGeometry),
+        sessionClock: resolveSessionClock(get().sessionManifest, csvPositions),
       });
       
-      const durationSec = maxTime;
-      set({ csvPositions, durationSec, timeSec: 0 });
+      const { motionSchedule, motionScheduleSource } = get();
+      if (motionScheduleSource === 'file' && motionSchedule) {
+        set({ motionTimeline: motionTimelineFromSchedule(motionSchedule) });
+      } else {
+        set({
+          motionTimeline: buildMotionTimeline(csvPositions, durationSec, get().roomGeometry),
+          motionScheduleSource: 'derived',
+        });
+      }
       console.log('[TIME] CSV loaded, rewound to 0s');
       get().computePeopleAtTime();
+      return report;
     } catch (err) {
       console.error('Failed to parse CSV:', err);
+      return null;
+    }
+  },
+
+  dismissCSVReport: () => {
+    set({ csvReport: null });
+  },
+
+  reportDataError: (error: DataFileError) => {
+    // Replace any earlier error for the same file
+    set((state) => ({
+      dataErrors: [
+        ...state.dataErrors.filter((e) => !(e.kind === error.kind && e.source === error.source)),
+        error,
+      ],
+    }));
+  },
+
+  dismissDataErrors: () => {
+    set({ dataErrors: [] });
+  },
+
+  setRoomGeometry: (room: RoomGeometry) => {
+    setActiveRoom(room);
+    const { activeSession, motionScheduleSource, durationSec } = get();
+    const seated = get().csvPositions && assignSeats(get().csvPositions, room);
+    const sessionEvents = seated ? deriveSessionEvents(seated.csvPositions, room) : [];
+    set({
+      roomGeometry: room,
+      csvPositions: seated ? seated.csvPositions : null,
+      playbackIndex: seated ? buildPlaybackIndex(seated.csvPositions, room) : null,
+      benchOccupancy: seated ? seated.occupancy : {},
+      trackAnomalies: seated ? detectTrackAnomalies(seated.csvPositions, room) : [],
+      sessionEvents,
+      keyMoments: keyMomentTimes(sessionEvents),
+    });
+    // Derived motion depends on who is inside the room
+    if (seated && motionScheduleSource === 'derived') {
+      set({ motionTimeline: buildMotionTimeline(seated.csvPositions, durationSec, room) });
+    }
+
+    if (activeSession) {
+      updateSessionRoom(activeSession.id, room).catch((err) => {
+        console.error('Failed to save room geometry:', err);
+      });
     }
+    get().computePeopleAtTime();
+  },
+
+  setShowGridLabels: (show: boolean) => {
+    set({ showGridLabels: show });
+  },
+
+  setSelectedPersonId: (personId: string | null) => {
+    set({ selectedPersonId: personId });
+  },
+
+  setInterpolation: (settings: Partial<InterpolationSettings>) => {
+    // Kept in the manifest so library sessions remember their interpolation
+    set((state) => {
+      const interpolation = { ...state.interpolation, ...settings };
+      return { interpolation, sessionManifest: { ...state.sessionManifest, interpolation } };
+    });
+
+    const { activeSession, sessionManifest } = get();
+    if (activeSession) {
+      updateSessionManifest(activeSession.id, sessionManifest).catch((err) => {
+        console.error('Failed to save interpolation settings:', err);
+      });
+    }
+    get().computePeopleAtTime();
   },
 
   computePeopleAtTime: () => {
-    const { peopleBase, timeline, timeSec, csvPositions, peopleMeta } = get();
+    const { peopleBase, timeline, timeSec, playbackIndex, peopleMeta, interpolation, roomGeometry } = get();
     
     // If CSV data is loaded, use that instead of timeline
-    if (csvPositions) {
+    if (playbackIndex) {
       const peopleAtTime: PersonState[] = [];
       
-      Object.keys(csvPositions).forEach((personId) => {
-        const samples = csvPositions[personId];
-        if (!samples || samples.length === 0) return;
-        
-        // Find bracketing samples
-        let before: CSVSample | null = null;
-        let after: CSVSample | null = null;
+      playbackIndex.people.forEach((person) => {
+        const { personId, samples } = person;
         
-        for (let i = 0; i < samples.length; i++) {
-          if (samples[i].tSec <= timeSec) {
-            before = samples[i];
-          }
-          if (samples[i].tSec >= timeSec && !after) {
-            after = samples[i];
-          }
-        }
+        // Find bracketing samples (cursor first, binary search on seeks)
+        const i = sampleIndexAt(person, timeSec);
         
         // Person not yet visible
-        if (!before) return;
+        if (i < 0) return;
         
-        // Check for exit
-        const isExited = before.bench === 'EXIT' || 
-                        (before.radiusFactor !== undefined && before.radiusFactor > 1.0) ||
-                        (after && (after.bench === 'EXIT' || (after.radiusFactor !== undefined && after.radiusFactor > 1.0)) && timeSec >= after.tSec);
+        // Don't render people outside the room
+        const first = person.stayStart[i];
+        if (first < 0) return;
         
-        if (isExited) return; // Don't render exited people
+        // Entry: doorway of this stay, worked out when indexing
+        const enteredVia = person.enteredVia[first];
         
-        // Interpolate position
-        const interpolated = after && before.tSec !== after.tSec
-          ? interpolateCSVPosition(before, after, timeSec)
-          : before;
+        // Exit: the next sample is outside, so walk the route to the doorway instead
+        const exitedVia = person.exitedVia[i];
         
-        if (interpolated.angleDeg === undefined || interpolated.radiusFactor === undefined) return;
+        // Interpolate position (null: no position, or hidden by the mode)
+        const position = interpolateCSVPosition(
+          person,
+          i,
+          timeSec,
+          modeForPerson(interpolation, personId),
+          interpolation.holdWithinSec
+        );
+        
+        if (!position) return;
         
-        // Build path history (traveled portion)
-        const pathHistory = samples
-          .filter((s) => s.tSec <= timeSec && s.angleDeg !== undefined && s.radiusFactor !== undefined)
-          .map((s) => ({
-            angleDeg: s.angleDeg!,
-            radiusFactor: s.radiusFactor!,
-            t: s.tSec,
-          }));
         
         // Get metadata
-        const meta = peopleMeta[personId] || {
-          color: '#888888',
-          posture: 'standing',
-          words: '',
-        };
+        const meta = peopleMeta[personId] || DEFAULT_PERSON_META;
         
         peopleAtTime.push({
           id: personId,
-          angleDeg: interpolated.angleDeg,
-          radiusFactor: interpolated.radiusFactor,
-          bench: interpolated.bench || 'CENTER',
+          angleDeg: position.angleDeg,
+          radiusFactor: position.radiusFactor,
+          bench: samples[i].bench || 'CENTER',
           color: meta.color,
           posture: meta.posture,
-          words: interpolated.notes || meta.words,
-          currentAngleDeg: interpolated.angleDeg,
-          currentRadiusFactor: interpolated.radiusFactor,
+          words: samples[i].notes || samples[i + 1]?.notes || meta.words,
+          currentAngleDeg: position.angleDeg,
+          currentRadiusFactor: position.radiusFactor,
           currentAction: 'walk',
           isVisible: true,
-          pathHistory,
+          pathHistory: person.path,
+          pathLength: person.pathCount[i],
+          enteredVia,
+          exitedVia,
         });
       });
       
@@ -514,20 +795,26 @@ export const usePeoplePlaybackStore = create<PeoplePlaybackStore>((set, get) =>
           currentAction: 'sit',
           isVisible: true,
           pathHistory: [],
+          pathLength: 0,
         };
       }
       
+      const pathHistory = getPathHistory(track.track, timeSec);
+
       // Interpolate current position
-      const currentPos = interpolatePosition(track.track, timeSec);
+      const mode = modeForPerson(interpolation, base.id);
+      const currentPos = interpolateTrack(track.track, timeSec, mode, interpolation.holdWithinSec);
       
       if (!currentPos) {
+        // Empty track: base position; otherwise hidden by the interpolation mode
         return {
           ...base,
           currentAngleDeg: base.angleDeg,
           currentRadiusFactor: base.radiusFactor,
           currentAction: 'sit',
-          isVisible: true,
-          pathHistory: [],
+          isVisible: track.track.length === 0,
+          pathHistory,
+          pathLength: pathHistory.length,
         };
       }
       
@@ -535,26 +822,45 @@ export const usePeoplePlaybackStore = create<PeoplePlaybackStore>((set, get) =>
       const lastPoint = track.track[track.track.length - 1];
       const isVisible = !(lastPoint.action === 'exit' && timeSec >= lastPoint.t);
       
+      // Doorways: a track starting outside enters, one heading outside exits
+      const isOutsideKey = (key: TimelinePoint | undefined) =>
+        key !== undefined && (key.action === 'exit' || isOutside(undefined, key.radiusFactor, roomGeometry));
+      const k = lastIndexAtOrBefore(track.track, timeSec, (key) => key.t);
+      const exitKey = [track.track[k], track.track[k + 1]].find(isOutsideKey);
+      const firstKey = track.track[0];
+      
       return {
         ...base,
         currentAngleDeg: currentPos.angleDeg,
         currentRadiusFactor: currentPos.radiusFactor,
-        currentAction: currentPos.action,
+        currentAction: currentPos.key.action,
         isVisible,
-        pathHistory: getPathHistory(track.track, timeSec),
+        pathHistory,
+        pathLength: pathHistory.length,
+        enteredVia: isOutsideKey(firstKey) ? nearestDoorway(firstKey.angleDeg, roomGeometry)?.id : undefined,
+        exitedVia: exitKey ? nearestDoorway(exitKey.angleDeg, roomGeometry)?.id : undefined,
       };
     });
     
     set({ peopleAtTime });
   },
-}));
+});
+
+export const usePeoplePlaybackStore = create<PeoplePlaybackStore>()(playbackStore);
+
+/**
+ * A store of its own, away from the app's (e.g. for benchmarks)
+ * Importing into it still makes the session's room the active one.
+ */
+export const createPlaybackStore = () => createStore<PeoplePlaybackStore>()(playbackStore);
 
 // Start the tick with requestAnimationFrame (call this once in the app)
 let rafId: number | null = null;
 let lastTickTime: number | null = null;
 
 export const startPlaybackTicker = () => {
-  if (rafId) return;
+  // Already running (pages call this on every mount)
+  if (rafId !== null) return;
   
   const tick = (timestamp: number) => {
     if (lastTickTime === null) {
@@ -573,7 +879,7 @@ export const startPlaybackTicker = () => {
 };
 
 export const stopPlaybackTicker = () => {
-  if (rafId) {
+  if (rafId !== null) {
     cancelAnimationFrame(rafId);
     rafId = null;
     lastTickTime = null;
@@ -1,5 +1,7 @@
 import * as React from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { Link } from "react-router-dom";
+import { ChartGantt, Crosshair, DraftingCompass, FileDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -11,8 +13,18 @@ import { UnifiedMovement } from "@/components/layers/UnifiedMovement";
 import { UnifiedCoverage } from "@/components/layers/UnifiedCoverage";
 import { Timer } from "@/components/Timer";
 import { TimelineControls } from "@/components/TimelineControls";
+import { TransportBar } from "@/components/TransportBar";
 import { LayerNavButtons } from "@/components/LayerNavButtons";
+import { CSVReportPanel } from "@/components/CSVReportPanel";
+import { DataErrorsPanel } from "@/components/DataErrorsPanel";
+import { SessionDropZone } from "@/components/SessionDropZone";
+import { SessionPicker } from "@/components/SessionPicker";
+import { InterpolationPicker } from "@/components/InterpolationPicker";
+import { AnomalyReview, AnomalyHighlights } from "@/components/AnomalyReview";
+import { SwimlanePanel, SelectedPersonHighlight } from "@/components/SwimlanePanel";
+import { GridReadout } from "@/components/GridReadout";
 import { usePeoplePlaybackStore, startPlaybackTicker } from "@/lib/usePeoplePlaybackStore";
+import { exportFieldCodesCSV } from "@/lib/fieldCodes";
 type ViewMode = "intro" | "focus";
 type IntroMode = "overlapped" | "exploded";
 type LayerType = "colors" | "dwell" | "notes" | "movement" | "coverage";
@@ -33,19 +45,24 @@ const Index = () => {
   const [introStyleImage, setIntroStyleImage] = React.useState<string | null>(null);
   const [introStyleOpacity, setIntroStyleOpacity] = React.useState(30);
   const [introStylePosition, setIntroStylePosition] = React.useState<"above" | "below">("below");
+  const [showSwimlanes, setShowSwimlanes] = React.useState(false);
 
   // Zustand store
   const {
     timeSec,
-    loadData
+    loadData,
+    showGridLabels,
+    setShowGridLabels,
+    csvPositions,
+    roomGeometry
   } = usePeoplePlaybackStore();
   const layers: LayerType[] = ["colors", "dwell", "notes", "movement", "coverage"];
 
-  // Load data and start ticker on mount
+  // Load the default session unless one is already loaded (e.g. coming back from /room), and start the ticker
   React.useEffect(() => {
-    loadData();
+    if (!csvPositions) loadData();
     startPlaybackTicker();
-  }, [loadData]);
+  }, [csvPositions, loadData]);
 
   // Track window size for responsive oval spacing
   const [windowWidth, setWindowWidth] = React.useState(typeof window !== 'undefined' ? window.innerWidth : 1280);
@@ -74,6 +91,16 @@ const Index = () => {
       reader.readAsDataURL(file);
     }
   };
+  // Positions as field-sheet codes, for copying onto paper sheets
+  const handleExportCodes = () => {
+    if (!csvPositions) return;
+    const url = URL.createObjectURL(new Blob([exportFieldCodesCSV(csvPositions, roomGeometry)], { type: "text/csv" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "field_codes.csv";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
   const handleIntroClick = () => {
     if (introMode === "overlapped") {
       setIntroMode("exploded");
@@ -120,14 +147,19 @@ const Index = () => {
     }
   };
   return <div className="min-h-screen bg-background p-4 md:p-8 relative">
-      {/* Timer and timeline controls at top center */}
+      {/* Timer, transport and timeline controls at top center */}
       <div className="max-w-7xl mx-auto space-y-4" style={{
       marginBottom: '25px'
     }}>
         <div className="flex justify-center">
           <Timer />
         </div>
-        <TimelineControls />
+        <div className="flex flex-wrap items-center justify-center gap-4">
+          <TransportBar />
+          <div className="flex-1 max-w-2xl">
+            <TimelineControls />
+          </div>
+        </div>
       </div>
 
       {/* Header controls */}
@@ -179,6 +211,31 @@ const Index = () => {
                 </div>
               </>}
             </div>}
+
+          {/* Anomalies, grid labels, swimlanes, playback interpolation, room editor, code export and session library */}
+          <div className="ml-auto flex gap-2">
+            <AnomalyReview />
+            <Button variant={showGridLabels ? "default" : "outline"} size="sm" onClick={() => setShowGridLabels(!showGridLabels)}>
+              <Crosshair className="mr-2 h-4 w-4" />
+              Grid
+            </Button>
+            <Button variant={showSwimlanes ? "default" : "outline"} size="sm" onClick={() => setShowSwimlanes(!showSwimlanes)} disabled={!csvPositions}>
+              <ChartGantt className="mr-2 h-4 w-4" />
+              Lanes
+            </Button>
+            <InterpolationPicker />
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/room">
+                <DraftingCompass className="mr-2 h-4 w-4" />
+                Room
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportCodes} disabled={!csvPositions}>
+              <FileDown className="mr-2 h-4 w-4" />
+              Codes
+            </Button>
+            <SessionPicker />
+          </div>
         </div>
       </div>
 
@@ -191,7 +248,8 @@ const Index = () => {
           &lt;
         </div>}
 
-      {/* Main visualization area - full viewport to prevent cutoff */}
+      {/* Main visualization area - full viewport to prevent cutoff; drop session files here */}
+      <SessionDropZone>
       <div className="w-full h-[calc(100vh-300px)] flex justify-center items-center gap-8 overflow-visible">
         {/* Layer navigation buttons - beside the grid, only in exploded view */}
         {viewMode === "intro" && introMode === "exploded" && <div className="hidden lg:block flex-shrink-0">
@@ -340,6 +398,20 @@ const Index = () => {
               })}
                 </div>
 
+                {/* Flagged samples at the current time (overlapped view) */}
+                {introMode === "overlapped" && <div className="absolute pointer-events-none" style={{
+              left: '50%',
+              top: '50%',
+              marginLeft: -260,
+              marginTop: -260,
+              width: 520,
+              height: 520,
+              zIndex: 30
+            }}>
+                    <AnomalyHighlights />
+                    <SelectedPersonHighlight />
+                  </div>}
+
                 {/* Intro Style Reference Overlay (above) */}
                 {introStyleImage && introStylePosition === "above" && <img src={introStyleImage} alt="Intro style reference" className="absolute inset-0 m-auto pointer-events-none" style={{
               width: 520,
@@ -373,13 +445,12 @@ const Index = () => {
               zIndex: 0
             }} />}
 
-                {/* Layer visualization */}
-                <div style={{
-              position: "relative",
-              zIndex: 1
-            }}>
+                {/* Layer visualization (coordinate crosshair when grid labels are on) */}
+                <GridReadout>
                   {renderLayer(selectedLayer)}
-                </div>
+                  <AnomalyHighlights />
+                  <SelectedPersonHighlight />
+                </GridReadout>
 
                 {/* Overlay above */}
                 {overlayImage && overlayPosition === "above" && <img src={overlayImage} alt="Overlay" className="absolute inset-0 m-auto" style={{
@@ -393,6 +464,18 @@ const Index = () => {
             </motion.div>}
         </AnimatePresence>
       </div>
+      </SessionDropZone>
+
+      {/* Per-person swimlanes */}
+      {showSwimlanes && <div className="max-w-7xl mx-auto mt-8">
+          <SwimlanePanel />
+        </div>}
+
+      {/* Data validation: schema errors and positions CSV report */}
+      <div className="fixed bottom-8 right-8 z-50 flex w-96 flex-col gap-4">
+        <DataErrorsPanel />
+        <CSVReportPanel />
+      </div>
 
       {/* Keyboard shortcuts help */}
       <div className="max-w-7xl mx-auto mt-8 text-center text-xs text-muted-foreground">
@@ -5,6 +5,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeft } from "lucide-react";
 import { polarToCartesian } from "@/components/CircularGrid";
+import { fetchDataFile, type DataFileError } from "@/lib/dataSchemas";
+import { usePeoplePlaybackStore } from "@/lib/usePeoplePlaybackStore";
+import { formatDuration } from "@/lib/sessionClock";
+import { summarizeTrack } from "@/lib/trackStats";
 
 interface PersonData {
   id: string;
@@ -22,22 +26,41 @@ const Person = () => {
   const navigate = useNavigate();
   const [personData, setPersonData] = React.useState<PersonData>({ id: id || "" });
   const [loading, setLoading] = React.useState(true);
+  const [dataErrors, setDataErrors] = React.useState<DataFileError[]>([]);
+  const csvPositions = usePeoplePlaybackStore((state) => state.csvPositions);
+  const roomGeometry = usePeoplePlaybackStore((state) => state.roomGeometry);
+
+  // Distance and speeds from the loaded session's positions, in metres
+  const track = React.useMemo(() => {
+    const key = csvPositions && Object.keys(csvPositions).find((k) => k.toLowerCase() === (id ?? "").toLowerCase());
+    return key ? summarizeTrack(csvPositions[key], roomGeometry) : null;
+  }, [csvPositions, roomGeometry, id]);
 
   React.useEffect(() => {
     const loadPersonData = async () => {
       const data: PersonData = { id: id || "" };
 
       try {
-        // Try to load from all data sources
-        const [colors, postures, notes] = await Promise.all([
-          fetch("/data/colors.json").then((r) => r.json()).catch(() => []),
-          fetch("/data/postures.json").then((r) => r.json()).catch(() => []),
-          fetch("/data/notes.json").then((r) => r.json()).catch(() => []),
+        // Try to load from all data sources (validated against their schemas)
+        const [colorsResult, posturesResult, notesResult] = await Promise.all([
+          fetchDataFile("colors", "/data/colors.json"),
+          fetchDataFile("postures", "/data/postures.json"),
+          fetchDataFile("notes", "/data/notes.json"),
         ]);
 
-        const colorData = colors.find((c: any) => c.id === id);
-        const postureData = postures.find((p: any) => p.id === id);
-        const noteData = notes.find((n: any) => n.id === id);
+        const colors = colorsResult.data ?? [];
+        const postures = posturesResult.data ?? [];
+        const notes = notesResult.data ?? [];
+
+        const errors: DataFileError[] = [];
+        if (colorsResult.error) errors.push(colorsResult.error);
+        if (posturesResult.error) errors.push(posturesResult.error);
+        if (notesResult.error) errors.push(notesResult.error);
+        setDataErrors(errors);
+
+        const colorData = colors.find((c) => c.id === id);
+        const postureData = postures.find((p) => p.id === id);
+        const noteData = notes.find((n) => n.id === id);
 
         if (colorData) {
           data.color = colorData.color;
@@ -125,11 +148,36 @@ const Person = () => {
                     </div>
                   )}
 
-                  {!personData.color && !personData.posture && !personData.note && (
+                  {track && track.samples > 0 && (
+                    <div className="flex items-start gap-4">
+                      <span className="font-medium w-24">Movement:</span>
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="outline">{track.distanceM.toFixed(1)} m walked</Badge>
+                        <Badge variant="outline">{formatDuration(track.timeInRoomSec)} in room</Badge>
+                        <Badge variant="outline">mean {track.meanSpeedMps.toFixed(2)} m/s</Badge>
+                        <Badge variant="outline">peak {track.peakSpeedMps.toFixed(2)} m/s</Badge>
+                      </div>
+                    </div>
+                  )}
+
+                  {!personData.color && !personData.posture && !personData.note && !track?.samples && (
                     <p className="text-muted-foreground text-sm">
                       No additional data found for this person.
                     </p>
                   )}
+
+                  {dataErrors.map((error) => (
+                    <div key={error.source} className="rounded border border-destructive/50 p-3 text-sm">
+                      <div className="font-medium text-destructive">{error.source} is invalid</div>
+                      <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                        {error.issues.map((issue, i) => (
+                          <li key={i}>
+                            <code>{issue.path}</code>: {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
                 </div>
 
                 {/* Mini circle preview */}
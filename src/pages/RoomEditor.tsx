@@ -0,0 +1,439 @@
+import * as React from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { ArrowLeft, Download, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CircularGrid } from "@/components/CircularGrid";
+import { usePeoplePlaybackStore, startPlaybackTicker } from "@/lib/usePeoplePlaybackStore";
+import { parseDataFile } from "@/lib/dataSchemas";
+import {
+  areaM2,
+  cartesianToPolar,
+  cloneRoomGeometry,
+  isAngleInBench,
+  normalizeRoomGeometry,
+  DEFAULT_BENCH_SEATS,
+  polarToCartesian,
+  type BenchDef,
+  type Doorway,
+  type RoomGeometry,
+} from "@/lib/roomGeometry";
+
+const SIZE = 520;
+const CENTER = SIZE / 2;
+const MAX_RADIUS = SIZE / 2 - 20;
+const BENCH_RADIUS = MAX_RADIUS * 0.92;
+const DOORWAY_RADIUS = MAX_RADIUS + 8;
+
+// Editable arc ends: a bench or doorway endpoint
+type ArcRef = { list: "benches" | "doorways"; id: string; end: "startDeg" | "endDeg" };
+
+// Helper: mutable copy of a layout's arrays for editing
+type Draft = Omit<RoomGeometry, "benches" | "doorways" | "ringRadiusFactors"> & {
+  benches: BenchDef[];
+  doorways: Doorway[];
+  ringRadiusFactors: number[];
+};
+
+const toDraft = (room: RoomGeometry): Draft => cloneRoomGeometry(room) as Draft;
+
+// Helper: first id "<prefix><n>" not used yet
+const nextId = (prefix: string, taken: { id: string }[]) => {
+  let n = 1;
+  while (taken.some((item) => item.id === `${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+};
+
+interface ArcRowProps {
+  item: BenchDef | Doorway;
+  onChange: (patch: Partial<BenchDef>) => void;
+  onRemove: () => void;
+}
+
+const ArcRow: React.FC<ArcRowProps> = ({ item, onChange, onRemove }) => (
+  <li className="flex items-center gap-2">
+    <Input className="h-8 w-16" value={item.id} onChange={(e) => onChange({ id: e.target.value })} aria-label="Id" />
+    <Input
+      className="h-8 flex-1"
+      value={item.label}
+      onChange={(e) => onChange({ label: e.target.value })}
+      placeholder="Label"
+      aria-label="Label"
+    />
+    {"color" in item && (
+      <input
+        type="color"
+        className="h-8 w-8 cursor-pointer rounded border"
+        value={item.color}
+        onChange={(e) => onChange({ color: e.target.value })}
+        aria-label="Colour"
+      />
+    )}
+    <Input
+      className="h-8 w-16"
+      type="number"
+      min={0}
+      max={360}
+      value={item.startDeg}
+      onChange={(e) => onChange({ startDeg: Number(e.target.value) })}
+      aria-label="Start angle"
+    />
+    <Input
+      className="h-8 w-16"
+      type="number"
+      min={0}
+      max={360}
+      value={item.endDeg}
+      onChange={(e) => onChange({ endDeg: Number(e.target.value) })}
+      aria-label="End angle"
+    />
+    {"seats" in item && (
+      <Input
+        className="h-8 w-14"
+        type="number"
+        min={1}
+        max={24}
+        value={item.seats}
+        onChange={(e) => onChange({ seats: Number(e.target.value) })}
+        aria-label="Seats"
+      />
+    )}
+    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove} aria-label={`Remove ${item.id}`}>
+      <Trash2 className="h-4 w-4" />
+    </Button>
+  </li>
+);
+
+/**
+ * Room editor - drag bench and doorway ends on the grid, edit sectors, rings
+ * and benches, preview against the session's people and save to the session
+ */
+const RoomEditor = () => {
+  const navigate = useNavigate();
+  const roomGeometry = usePeoplePlaybackStore((state) => state.roomGeometry);
+  const setRoomGeometry = usePeoplePlaybackStore((state) => state.setRoomGeometry);
+  const peopleAtTime = usePeoplePlaybackStore((state) => state.peopleAtTime);
+  const csvPositions = usePeoplePlaybackStore((state) => state.csvPositions);
+  const activeSession = usePeoplePlaybackStore((state) => state.activeSession);
+  const loadData = usePeoplePlaybackStore((state) => state.loadData);
+
+  const [draft, setDraft] = React.useState<Draft>(() => toDraft(roomGeometry));
+  const [dragging, setDragging] = React.useState<ArcRef | null>(null);
+  const svgRef = React.useRef<SVGSVGElement>(null);
+
+  // Opened directly: load the default session so there are people to preview
+  React.useEffect(() => {
+    if (!csvPositions) loadData();
+    startPlaybackTicker();
+  }, [csvPositions, loadData]);
+
+  // Follow the session's layout when another session is loaded
+  React.useEffect(() => {
+    setDraft(toDraft(roomGeometry));
+  }, [roomGeometry]);
+
+  const validation = React.useMemo(() => parseDataFile("room", draft, "editor"), [draft]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(roomGeometry);
+
+  const update = (patch: Partial<Draft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const updateArc = (list: ArcRef["list"], id: string, patch: Partial<BenchDef>) =>
+    setDraft((d) => ({
+      ...d,
+      [list]: (d[list] as (BenchDef | Doorway)[]).map((item) => (item.id === id ? { ...item, ...patch } : item)),
+    }));
+
+  const removeArc = (list: ArcRef["list"], id: string) =>
+    setDraft((d) => ({ ...d, [list]: (d[list] as (BenchDef | Doorway)[]).filter((item) => item.id !== id) }));
+
+  const setSectors = (sectors: number) => {
+    if (!Number.isInteger(sectors) || sectors < 1 || sectors > 72) return;
+    update({ sectors, sectorSizeDeg: 360 / sectors, sectorLabels: Array.from({ length: sectors }, (_, i) => `S${i}`) });
+  };
+
+  const setRings = (ringRadiusFactors: number[]) =>
+    update({
+      ringRadiusFactors,
+      rings: ringRadiusFactors.length,
+      ringLabels: ringRadiusFactors.map((_, i) => `R${i + 1}`),
+    });
+
+  // Pointer → angle on the grid, snapped to whole degrees
+  const pointerAngle = (e: React.PointerEvent): number | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const { angleDeg } = cartesianToPolar(e.clientX - rect.left - CENTER, CENTER - (e.clientY - rect.top));
+    return Math.round(angleDeg) % 360;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const angle = pointerAngle(e);
+    if (angle !== null) updateArc(dragging.list, dragging.id, { [dragging.end]: angle });
+  };
+
+  const handleSave = () => {
+    if (validation.error) return;
+    setRoomGeometry(validation.data);
+    toast.success(activeSession ? `Room saved to "${activeSession.title}"` : "Room applied to this session");
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(draft, null, 2)], { type: "application/json" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "room.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Arc end handles for dragging
+  const handles: (ArcRef & { angleDeg: number; radius: number })[] = [
+    ...draft.benches.flatMap((b) =>
+      (["startDeg", "endDeg"] as const).map((end) => ({ list: "benches" as const, id: b.id, end, angleDeg: b[end], radius: BENCH_RADIUS }))
+    ),
+    ...draft.doorways.flatMap((z) =>
+      (["startDeg", "endDeg"] as const).map((end) => ({ list: "doorways" as const, id: z.id, end, angleDeg: z[end], radius: DOORWAY_RADIUS }))
+    ),
+  ];
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/")} className="mb-4">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Home
+        </Button>
+
+        <div className="flex flex-col gap-8 lg:flex-row">
+          {/* Live preview */}
+          <div className="relative flex-shrink-0" style={{ width: SIZE, height: SIZE }}>
+            <CircularGrid size={SIZE} room={normalizeRoomGeometry(draft)} />
+            <svg
+              ref={svgRef}
+              width={SIZE}
+              height={SIZE}
+              className="absolute inset-0"
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDragging(null)}
+              onPointerLeave={() => setDragging(null)}
+            >
+              {/* People at the current time; seated people outside their bench in red */}
+              {peopleAtTime
+                .filter((p) => p.isVisible)
+                .map((p) => {
+                  const { x, y } = polarToCartesian(CENTER, CENTER, MAX_RADIUS * p.currentRadiusFactor, p.currentAngleDeg);
+                  const benchKnown = draft.benches.some((b) => b.id === p.bench);
+                  const misplaced = benchKnown && !isAngleInBench(p.currentAngleDeg, p.bench, normalizeRoomGeometry(draft));
+                  return (
+                    <g key={p.id}>
+                      <circle cx={x} cy={y} r={6} fill={misplaced ? "#e74c3c" : p.color} opacity={0.8} />
+                      <text x={x + 8} y={y + 4} fontSize={10} fill="#CFBD94" className="font-mori">
+                        {p.id}
+                      </text>
+                    </g>
+                  );
+                })}
+
+              {/* Drag handles */}
+              {handles.map((h) => {
+                const { x, y } = polarToCartesian(CENTER, CENTER, h.radius, h.angleDeg);
+                const active = dragging?.list === h.list && dragging.id === h.id && dragging.end === h.end;
+                return (
+                  <circle
+                    key={`${h.list}-${h.id}-${h.end}`}
+                    cx={x}
+                    cy={y}
+                    r={active ? 8 : 6}
+                    fill="white"
+                    stroke="#CFBD94"
+                    strokeWidth={2}
+                    className="cursor-grab"
+                    onPointerDown={(e) => {
+                      e.preventDefault();
+                      setDragging(h);
+                    }}
+                  >
+                    <title>{`${h.id} ${h.end === "startDeg" ? "start" : "end"} ${h.angleDeg}°`}</title>
+                  </circle>
+                );
+              })}
+            </svg>
+          </div>
+
+          {/* Layout form */}
+          <Card className="flex-1">
+            <CardHeader>
+              <CardTitle className="text-2xl">Room layout</CardTitle>
+              <CardDescription>
+                {activeSession ? `Session: ${activeSession.title}` : "Default session"} — drag the handles to move bench and
+                doorway ends.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6 text-sm">
+              <div className="flex items-center gap-4">
+                <Label htmlFor="room-sectors" className="w-24">Sectors</Label>
+                <Input
+                  id="room-sectors"
+                  className="h-8 w-24"
+                  type="number"
+                  min={1}
+                  max={72}
+                  value={draft.sectors}
+                  onChange={(e) => setSectors(Number(e.target.value))}
+                />
+              </div>
+
+              <div className="flex items-center gap-4">
+                <Label htmlFor="room-radius" className="w-24">Radius (m)</Label>
+                <Input
+                  id="room-radius"
+                  className="h-8 w-24"
+                  type="number"
+                  step={0.5}
+                  min={0.5}
+                  value={draft.radiusM}
+                  onChange={(e) => update({ radiusM: Number(e.target.value) })}
+                />
+                <span className="text-xs text-muted-foreground">{areaM2(1, draft).toFixed(0)} m² floor</span>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Ring radius factors</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRings([...draft.ringRadiusFactors, 1])}
+                    disabled={draft.ringRadiusFactors.length >= 10}
+                  >
+                    <Plus className="mr-1 h-4 w-4" /> Ring
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {draft.ringRadiusFactors.map((r, i) => (
+                    <div key={i} className="flex items-center gap-1">
+                      <Input
+                        className="h-8 w-20"
+                        type="number"
+                        step={0.05}
+                        min={0.05}
+                        max={1}
+                        value={r}
+                        onChange={(e) => setRings(draft.ringRadiusFactors.map((v, j) => (j === i ? Number(e.target.value) : v)))}
+                        aria-label={`Ring ${i + 1} radius factor`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setRings(draft.ringRadiusFactors.filter((_, j) => j !== i))}
+                        disabled={draft.ringRadiusFactors.length <= 1}
+                        aria-label={`Remove ring ${i + 1}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Benches (id, label, colour, start°, end°, seats)</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      update({
+                        benches: [
+                          ...draft.benches,
+                          { id: nextId("N", draft.benches), label: "New bench", startDeg: 0, endDeg: 30, color: "#CFBD94", seats: DEFAULT_BENCH_SEATS },
+                        ],
+                      })
+                    }
+                  >
+                    <Plus className="mr-1 h-4 w-4" /> Bench
+                  </Button>
+                </div>
+                <ul className="space-y-2">
+                  {draft.benches.map((bench, i) => (
+                    <ArcRow
+                      key={i}
+                      item={bench}
+                      onChange={(patch) => update({ benches: draft.benches.map((b, j) => (j === i ? { ...b, ...patch } : b)) })}
+                      onRemove={() => removeArc("benches", bench.id)}
+                    />
+                  ))}
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Doorways (id, label, start°, end°)</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      update({
+                        doorways: [
+                          ...draft.doorways,
+                          { id: nextId("E", draft.doorways), label: "Doorway", startDeg: 350, endDeg: 10 },
+                        ],
+                      })
+                    }
+                  >
+                    <Plus className="mr-1 h-4 w-4" /> Doorway
+                  </Button>
+                </div>
+                <ul className="space-y-2">
+                  {draft.doorways.map((zone, i) => (
+                    <ArcRow
+                      key={i}
+                      item={zone}
+                      onChange={(patch) =>
+                        update({ doorways: draft.doorways.map((z, j) => (j === i ? { ...z, ...patch } : z)) })
+                      }
+                      onRemove={() => removeArc("doorways", zone.id)}
+                    />
+                  ))}
+                </ul>
+              </div>
+
+              {validation.error && (
+                <div className="rounded border border-destructive/50 p-3">
+                  <div className="font-medium text-destructive">This layout cannot be saved yet</div>
+                  <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                    {validation.error.issues.map((issue, i) => (
+                      <li key={i}>
+                        <code>{issue.path}</code>: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={handleDownload}>
+                  <Download className="mr-2 h-4 w-4" />
+                  room.json
+                </Button>
+                <Button variant="outline" onClick={() => setDraft(toDraft(roomGeometry))} disabled={!isDirty}>
+                  Revert
+                </Button>
+                <Button onClick={handleSave} disabled={!isDirty || !!validation.error}>
+                  Save to session
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoomEditor;